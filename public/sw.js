@@ -0,0 +1,28 @@
+// Service worker for Click reminder pushes. The payload is JSON sent by the
+// send-reminders edge function: { title, body, url, tag }.
+
+self.addEventListener("push", (event) => {
+  const payload = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "Clicks", {
+      body: payload.body,
+      tag: payload.tag,
+      icon: "/favicon.ico",
+      data: { url: payload.url || "/dashboard" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data.url, self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url === url);
+      if (existing) return existing.focus();
+      return self.clients.openWindow(url);
+    })
+  );
+});
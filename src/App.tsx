@@ -6,9 +6,16 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import AppShell from "@/components/AppShell";
 import Index from "./pages/Index";
 import Dashboard from "./pages/Dashboard";
 import Profile from "./pages/Profile";
+import ClickDetail from "./pages/ClickDetail";
+import ClickSettings from "./pages/ClickSettings";
+import PostPhotos from "./pages/PostPhotos";
+import Friends from "./pages/Friends";
+import ResetPassword from "./pages/ResetPassword";
+import JoinClick from "./pages/JoinClick";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,16 +29,25 @@ const App = () => (
           <Sonner />
           <Routes>
             <Route path="/" element={<Index />} />
-            <Route path="/dashboard" element={
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/join/:code" element={<JoinClick />} />
+            <Route element={
               <ProtectedRoute>
-                <Dashboard />
+                <AppShell />
               </ProtectedRoute>
-            } />
-            <Route path="/profile" element={
-              <ProtectedRoute>
-                <Profile />
-              </ProtectedRoute>
-            } />
+            }>
+              <Route path="/dashboard" element={<Dashboard />} />
+              <Route path="/clicks/:id" element={<ClickDetail />}>
+                <Route path="posts/:postId" element={<PostPhotos />} />
+              </Route>
+              <Route path="/clicks/:id/settings" element={
+                <ProtectedRoute requireAal2>
+                  <ClickSettings />
+                </ProtectedRoute>
+              } />
+              <Route path="/friends" element={<Friends />} />
+              <Route path="/profile" element={<Profile />} />
+            </Route>
             <Route path="*" element={<NotFound />} />
           </Routes>
         </AuthProvider>
@@ -0,0 +1,192 @@
+import { NavLink, Outlet, useLocation, useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+  SidebarProvider,
+  SidebarTrigger,
+  useSidebar,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import AvatarThumbnail from "@/components/AvatarThumbnail";
+import { NotificationBell } from "@/components/notifications/NotificationBell";
+import { useToast } from "@/components/ui/use-toast";
+import { useMyClicks } from "@/hooks/use-my-clicks";
+import { useProfileSummary } from "@/hooks/use-profile";
+import { displayName } from "@/lib/profiles";
+import { signOut } from "@/lib/sign-out";
+import { Camera, ChevronsUpDown, Home, Images, LogOut, User, Users } from "lucide-react";
+
+const NAV_ITEMS = [
+  { to: "/dashboard", label: "Dashboard", icon: Home },
+  { to: "/friends", label: "Friends", icon: Users },
+  { to: "/profile", label: "Profile", icon: User },
+];
+
+function AppSidebar() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const { toast } = useToast();
+  const { isMobile, setOpenMobile } = useSidebar();
+  const { data: clicks, isLoading: clicksLoading } = useMyClicks();
+  const activeClicks = clicks?.filter((click) => !click.archived_at);
+  const { data: profile } = useProfileSummary();
+  const name = displayName(profile);
+
+  const isActive = (to: string) => pathname === to || pathname.startsWith(`${to}/`);
+
+  // The mobile sidebar is a drawer, so close it once the user picks a page
+  const closeOnMobile = () => {
+    if (isMobile) setOpenMobile(false);
+  };
+
+  const handleSignOut = async () => {
+    const { error } = await signOut();
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <div className="flex items-center gap-2 px-2 py-1 font-semibold">
+          <Camera className="w-5 h-5 text-primary" />
+          Clicks
+        </div>
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {NAV_ITEMS.map(({ to, label, icon: Icon }) => (
+                <SidebarMenuItem key={to}>
+                  <SidebarMenuButton asChild isActive={isActive(to)} tooltip={label}>
+                    <NavLink to={to} onClick={closeOnMobile}>
+                      <Icon />
+                      <span>{label}</span>
+                    </NavLink>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Clicks</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {clicksLoading
+                ? Array.from({ length: 3 }).map((_, i) => (
+                    <SidebarMenuItem key={i}>
+                      <SidebarMenuSkeleton showIcon />
+                    </SidebarMenuItem>
+                  ))
+                : activeClicks?.map((click) => (
+                    <SidebarMenuItem key={click.id}>
+                      <SidebarMenuButton
+                        asChild
+                        isActive={isActive(`/clicks/${click.id}`)}
+                        tooltip={click.name}
+                      >
+                        <NavLink to={`/clicks/${click.id}`} onClick={closeOnMobile}>
+                          <Images />
+                          <span>{click.name}</span>
+                        </NavLink>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <SidebarFooter>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <SidebarMenuButton size="lg">
+                  <Avatar className="w-8 h-8">
+                    <AvatarThumbnail src={profile?.avatar_url} alt={name} />
+                    <AvatarFallback>{name.charAt(0).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <div className="grid flex-1 text-left text-sm leading-tight">
+                    <span className="truncate font-semibold">{name}</span>
+                    <span className="truncate text-xs">{user?.email}</span>
+                  </div>
+                  <ChevronsUpDown className="ml-auto size-4" />
+                </SidebarMenuButton>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent side={isMobile ? "bottom" : "right"} align="end" className="w-56">
+                <DropdownMenuLabel className="truncate">{user?.email}</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onSelect={() => {
+                    closeOnMobile();
+                    navigate("/profile");
+                  }}
+                >
+                  <User className="w-4 h-4 mr-2" />
+                  Profile
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={handleSignOut}>
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Sign out
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+    </Sidebar>
+  );
+}
+
+/**
+ * Layout for signed-in pages: navigation sidebar (a drawer on mobile) and a
+ * header with the sidebar toggle and notifications.
+ */
+const AppShell = () => {
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="sticky top-0 z-10 flex h-14 items-center gap-2 border-b bg-background/80 px-4 backdrop-blur">
+          <SidebarTrigger />
+          <div className="ml-auto">
+            <NotificationBell />
+          </div>
+        </header>
+        <Outlet />
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
+
+export default AppShell;
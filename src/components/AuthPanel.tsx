@@ -1,30 +1,25 @@
 
 import { useState } from "react";
-import { Chrome, Facebook } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { PasswordlessSignIn } from "@/components/auth/PasswordlessSignIn";
+import {
+  OAUTH_PROVIDERS,
+  signInWithOAuthProvider,
+  type OAuthProviderConfig,
+} from "@/lib/oauth-providers";
 
 const AuthPanel = () => {
   const { toast } = useToast();
   const [isSignUp, setIsSignUp] = useState(false);
+  const [isForgotPassword, setIsForgotPassword] = useState(false);
+  const [isPasswordless, setIsPasswordless] = useState(false);
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
 
-  const handleGoogleSignIn = async () => {
+  const handleOAuthSignIn = async (provider: OAuthProviderConfig) => {
     try {
-      console.log('Initiating Google sign-in...');
-      const { data, error } = await supabase.auth.signInWithOAuth({
-        provider: 'google',
-        options: {
-          redirectTo: window.location.origin,
-          queryParams: {
-            access_type: 'offline',
-            prompt: 'consent',
-          },
-        },
-      });
-
-      console.log('Sign-in response:', { data, error });
+      const { error } = await signInWithOAuthProvider(provider);
 
       if (error) {
         console.error('Auth error:', error);
@@ -72,92 +67,189 @@ const AuthPanel = () => {
     }
   };
 
-  return (
-    <div className="glass-panel p-8 w-full max-w-md mx-auto animate-fade-in">
-      <div className="space-y-6">
-        <div className="text-center space-y-2">
-          <h1 className="text-2xl font-semibold text-gray-900">
-            {isSignUp ? "Create an Account" : "Welcome Back"}
-          </h1>
-          <p className="text-sm text-gray-600">
-            {isSignUp ? "Sign up to get started" : "Sign in to continue your journey"}
-          </p>
-        </div>
+  const handlePasswordResetRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/reset-password`,
+    });
 
-        <div className="space-y-4">
-          <button 
-            onClick={handleGoogleSignIn}
-            className="auth-button bg-white text-gray-700 border-gray-200 hover:bg-gray-50"
-          >
-            <Chrome className="w-5 h-5" />
-            <span>Continue with Google</span>
-          </button>
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+      return;
+    }
 
-          <button className="auth-button bg-[#1877F2] text-white border-transparent hover:bg-[#1864D9]">
-            <Facebook className="w-5 h-5" />
-            <span>Continue with Facebook</span>
-          </button>
-        </div>
+    // Same message whether or not the address has an account
+    toast({
+      title: "Check your email",
+      description: "If an account exists for that address, we've sent a link to reset your password.",
+    });
+    setIsForgotPassword(false);
+  };
 
-        <div className="relative">
-          <div className="absolute inset-0 flex items-center">
-            <div className="w-full border-t border-gray-200"></div>
-          </div>
-          <div className="relative flex justify-center text-sm">
-            <span className="px-2 bg-white text-gray-500">or</span>
+  if (isForgotPassword) {
+    return (
+      <div className="glass-panel p-8 w-full max-w-md mx-auto animate-fade-in">
+        <form onSubmit={handlePasswordResetRequest} className="space-y-6">
+          <div className="text-center space-y-2">
+            <h1 className="text-2xl font-semibold text-gray-900">Reset your password</h1>
+            <p className="text-sm text-gray-600">
+              Enter your email and we'll send you a link to choose a new password.
+            </p>
           </div>
-        </div>
 
-        <form onSubmit={handleEmailAuth} className="space-y-4">
           <div className="relative">
             <input
               type="email"
-              id="email"
+              id="reset-email"
               value={email}
               onChange={(e) => setEmail(e.target.value)}
               className="block w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary peer"
               placeholder=" "
               required
             />
-            <label htmlFor="email" className="floating-label peer-focus:text-primary">
+            <label htmlFor="reset-email" className="floating-label peer-focus:text-primary">
               Email address
             </label>
           </div>
 
-          <div className="relative">
-            <input
-              type="password"
-              id="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="block w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary peer"
-              placeholder=" "
-              required
-            />
-            <label htmlFor="password" className="floating-label peer-focus:text-primary">
-              Password
-            </label>
-          </div>
-
           <button
             type="submit"
             className="w-full px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary-hover transition-colors duration-200"
           >
-            {isSignUp ? "Sign Up" : "Sign In"}
+            Send reset link
           </button>
-        </form>
 
-        <div className="text-center text-sm">
-          <p className="text-gray-600">
-            {isSignUp ? "Already have an account?" : "Don't have an account?"}{" "}
+          <div className="text-center text-sm">
             <button
-              onClick={() => setIsSignUp(!isSignUp)}
+              type="button"
+              onClick={() => setIsForgotPassword(false)}
               className="text-primary hover:underline font-medium"
             >
-              {isSignUp ? "Sign In" : "Sign Up"}
+              Back to sign in
             </button>
+          </div>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-panel p-8 w-full max-w-md mx-auto animate-fade-in">
+      <div className="space-y-6">
+        <div className="text-center space-y-2">
+          <h1 className="text-2xl font-semibold text-gray-900">
+            {isSignUp ? "Create an Account" : "Welcome Back"}
+          </h1>
+          <p className="text-sm text-gray-600">
+            {isSignUp ? "Sign up to get started" : "Sign in to continue your journey"}
           </p>
         </div>
+
+        <div className="space-y-4">
+          {OAUTH_PROVIDERS.map((provider) => (
+            <button
+              key={provider.id}
+              onClick={() => handleOAuthSignIn(provider)}
+              className={`auth-button ${provider.className}`}
+            >
+              <provider.icon className="w-5 h-5" />
+              <span>Continue with {provider.label}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="relative">
+          <div className="absolute inset-0 flex items-center">
+            <div className="w-full border-t border-gray-200"></div>
+          </div>
+          <div className="relative flex justify-center text-sm">
+            <span className="px-2 bg-white text-gray-500">or</span>
+          </div>
+        </div>
+
+        {isPasswordless ? (
+          <PasswordlessSignIn onBack={() => setIsPasswordless(false)} />
+        ) : (
+          <>
+            <form onSubmit={handleEmailAuth} className="space-y-4">
+              <div className="relative">
+                <input
+                  type="email"
+                  id="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="block w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary peer"
+                  placeholder=" "
+                  required
+                />
+                <label htmlFor="email" className="floating-label peer-focus:text-primary">
+                  Email address
+                </label>
+              </div>
+
+              <div className="relative">
+                <input
+                  type="password"
+                  id="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="block w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary peer"
+                  placeholder=" "
+                  required
+                />
+                <label htmlFor="password" className="floating-label peer-focus:text-primary">
+                  Password
+                </label>
+              </div>
+
+              {!isSignUp && (
+                <div className="text-right text-sm">
+                  <button
+                    type="button"
+                    onClick={() => setIsForgotPassword(true)}
+                    className="text-primary hover:underline"
+                  >
+                    Forgot password?
+                  </button>
+                </div>
+              )}
+
+              <button
+                type="submit"
+                className="w-full px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary-hover transition-colors duration-200"
+              >
+                {isSignUp ? "Sign Up" : "Sign In"}
+              </button>
+            </form>
+
+            <button
+              type="button"
+              onClick={() => setIsPasswordless(true)}
+              className="w-full text-sm text-primary hover:underline"
+            >
+              Email me a sign-in code instead
+            </button>
+          </>
+        )}
+
+        {/* Email codes sign up new addresses automatically */}
+        {!isPasswordless && (
+          <div className="text-center text-sm">
+            <p className="text-gray-600">
+              {isSignUp ? "Already have an account?" : "Don't have an account?"}{" "}
+              <button
+                onClick={() => setIsSignUp(!isSignUp)}
+                className="text-primary hover:underline font-medium"
+              >
+                {isSignUp ? "Sign In" : "Sign Up"}
+              </button>
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,26 @@
+import { useState } from "react";
+import { AvatarImage } from "@/components/ui/avatar";
+import { thumbnailUrl } from "@/lib/image-processing";
+
+type AvatarThumbnailProps = Omit<React.ComponentPropsWithoutRef<typeof AvatarImage>, "src"> & {
+  src: string | null | undefined;
+};
+
+/**
+ * An avatar's small thumbnail, falling back to the original for avatars
+ * uploaded before thumbnails were generated.
+ */
+const AvatarThumbnail = ({ src, ...props }: AvatarThumbnailProps) => {
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+  if (!src) return null;
+
+  return (
+    <AvatarImage
+      {...props}
+      src={failedSrc === src ? src : thumbnailUrl(src)}
+      onLoadingStatusChange={(status) => status === "error" && setFailedSrc(src)}
+    />
+  );
+};
+
+export default AvatarThumbnail;
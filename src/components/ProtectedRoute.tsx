@@ -1,16 +1,46 @@
 
-import { Navigate } from "react-router-dom";
+import { useEffect } from "react";
+import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import { saveReturnTo } from "@/lib/return-to";
+import { needsMfaChallenge } from "@/lib/mfa";
+import { MfaChallenge } from "@/components/auth/MfaChallenge";
 
-const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
-  const { user, loading } = useAuth();
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+  /**
+   * Sensitive pages ask users who have 2FA set up for their code right there.
+   * 2FA stays optional, so users without a factor get in as usual.
+   */
+  requireAal2?: boolean;
+}
+
+const ProtectedRoute = ({ children, requireAal2 = false }: ProtectedRouteProps) => {
+  const { user, loading, assurance } = useAuth();
+  const location = useLocation();
+  const owesSecondFactor = needsMfaChallenge(assurance);
+  // Index shows the 2FA challenge to signed-in users who still owe one
+  const mustSignIn = !loading && (!user || (owesSecondFactor && !requireAal2));
+  const returnTo = `${location.pathname}${location.search}${location.hash}`;
+
+  useEffect(() => {
+    if (mustSignIn) saveReturnTo(returnTo);
+  }, [mustSignIn, returnTo]);
 
   if (loading) {
     return <div>Loading...</div>;
   }
 
-  if (!user) {
-    return <Navigate to="/" />;
+  if (mustSignIn) {
+    return <Navigate to="/" replace />;
+  }
+
+  if (owesSecondFactor) {
+    return (
+      <div className="container mx-auto max-w-md px-4 py-16">
+        <MfaChallenge />
+      </div>
+    );
   }
 
   return <>{children}</>;
@@ -0,0 +1,25 @@
+import { useState } from "react";
+
+type ThumbnailImageProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, "src"> & {
+  src: string;
+  /** Defaults to `src` when there is no separate thumbnail. */
+  thumbnailSrc?: string;
+};
+
+/**
+ * Loads the small thumbnail of an image, falling back to the original for
+ * images uploaded before thumbnails were generated.
+ */
+const ThumbnailImage = ({ src, thumbnailSrc = src, ...props }: ThumbnailImageProps) => {
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+
+  return (
+    <img
+      {...props}
+      src={failedSrc === thumbnailSrc ? src : thumbnailSrc}
+      onError={() => setFailedSrc(thumbnailSrc)}
+    />
+  );
+};
+
+export default ThumbnailImage;
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { preferredFactorId, rememberFactor } from "@/lib/mfa";
+import { signOut } from "@/lib/sign-out";
+import type { Factor } from "@supabase/supabase-js";
+
+const CODE_LENGTH = 6;
+
+export function MfaChallenge() {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [factorId, setFactorId] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.mfa.listFactors().then(({ data, error }) => {
+      if (error) {
+        console.error("Error:", error);
+        return;
+      }
+      const verified = data.totp.filter((factor) => factor.status === "verified");
+      setFactors(verified);
+      setFactorId(preferredFactorId(verified));
+    });
+  }, []);
+
+  const verifyCode = async (token: string) => {
+    setVerifying(true);
+    try {
+      if (!factorId) throw new Error("No authenticator app is set up for this account");
+
+      const { error: verifyError } = await supabase.auth.mfa.challengeAndVerify({
+        factorId,
+        code: token,
+      });
+
+      if (verifyError) {
+        setCode("");
+        setError("That code didn't work. Codes change every 30 seconds, so try the latest one.");
+      } else {
+        rememberFactor(factorId);
+      }
+      // On success the session is upgraded to aal2 and Index sends the user on
+    } catch (error) {
+      console.error("Error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to verify code",
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="glass-panel p-8 w-full max-w-md mx-auto space-y-4 animate-fade-in">
+      <div className="text-center space-y-1">
+        <h2 className="text-xl font-semibold">Two-factor authentication</h2>
+        <p className="text-sm text-gray-600">
+          Enter the {CODE_LENGTH}-digit code from your authenticator app.
+        </p>
+      </div>
+
+      {factors.length > 1 && (
+        <div className="space-y-2">
+          <Label htmlFor="mfa-factor">Authenticator app</Label>
+          <Select
+            value={factorId ?? undefined}
+            onValueChange={(id) => {
+              setFactorId(id);
+              setCode("");
+              setError(null);
+            }}
+            disabled={verifying}
+          >
+            <SelectTrigger id="mfa-factor">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {factors.map((factor) => (
+                <SelectItem key={factor.id} value={factor.id}>
+                  {factor.friendly_name || "Authenticator app"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex justify-center">
+        <InputOTP
+          maxLength={CODE_LENGTH}
+          value={code}
+          onChange={(value) => {
+            setCode(value);
+            setError(null);
+          }}
+          onComplete={verifyCode}
+          disabled={verifying || !factorId}
+          autoFocus
+        >
+          <InputOTPGroup>
+            {Array.from({ length: CODE_LENGTH }).map((_, i) => (
+              <InputOTPSlot key={i} index={i} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+      <div className="text-center text-sm">
+        <button
+          type="button"
+          onClick={() => signOut()}
+          className="text-primary hover:underline font-medium"
+        >
+          Sign in with a different account
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { Progress } from "@/components/ui/progress";
+import { PASSWORD_STRENGTH_LABELS, scorePassword } from "@/lib/password";
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+export function PasswordStrengthMeter({ password }: PasswordStrengthMeterProps) {
+  if (!password) return null;
+
+  const strength = scorePassword(password);
+
+  return (
+    <div className="space-y-1" aria-live="polite">
+      <Progress value={(strength / 4) * 100} className="h-2" />
+      <p className="text-xs text-gray-600">
+        Strength: {PASSWORD_STRENGTH_LABELS[strength]}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { isAuthError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+const CODE_LENGTH = 6;
+// Matches Supabase's default per-address rate limit for auth emails
+const RESEND_COOLDOWN_SECONDS = 60;
+
+interface PasswordlessSignInProps {
+  onBack: () => void;
+}
+
+export function PasswordlessSignIn({ onBack }: PasswordlessSignInProps) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [cooldown, setCooldown] = useState(0);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown(cooldown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const sendCode = async () => {
+    setSending(true);
+    const { error: sendError } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.origin },
+    });
+    setSending(false);
+
+    if (sendError) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't send code",
+        description: sendError.message,
+      });
+      return;
+    }
+
+    setCodeSent(true);
+    setCode("");
+    setError(null);
+    setCooldown(RESEND_COOLDOWN_SECONDS);
+    toast({
+      title: "Check your email",
+      description: `We sent a sign-in link and a ${CODE_LENGTH}-digit code to ${email}.`,
+    });
+  };
+
+  const verifyCode = async (token: string) => {
+    setVerifying(true);
+    const { error: verifyError } = await supabase.auth.verifyOtp({
+      email,
+      token,
+      type: "email",
+    });
+    setVerifying(false);
+
+    if (verifyError) {
+      setCode("");
+      setError(
+        isAuthError(verifyError) && verifyError.code === "otp_expired"
+          ? "This code is wrong or has expired. Check your latest email or send a new code."
+          : verifyError.message
+      );
+    }
+    // On success Index sees the new session and sends the user on
+  };
+
+  if (!codeSent) {
+    return (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          sendCode();
+        }}
+        className="space-y-4"
+      >
+        <div className="relative">
+          <input
+            type="email"
+            id="otp-email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="block w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary peer"
+            placeholder=" "
+            required
+          />
+          <label htmlFor="otp-email" className="floating-label peer-focus:text-primary">
+            Email address
+          </label>
+        </div>
+
+        <button
+          type="submit"
+          disabled={sending}
+          className="w-full px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary-hover transition-colors duration-200 disabled:opacity-50"
+        >
+          {sending ? "Sending..." : "Email me a sign-in code"}
+        </button>
+
+        <div className="text-center text-sm">
+          <button type="button" onClick={onBack} className="text-primary hover:underline font-medium">
+            Use a password instead
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 text-center">
+        Enter the {CODE_LENGTH}-digit code sent to <span className="font-medium">{email}</span>,
+        or open the link in that email.
+      </p>
+
+      <div className="flex justify-center">
+        <InputOTP
+          maxLength={CODE_LENGTH}
+          value={code}
+          onChange={(value) => {
+            setCode(value);
+            setError(null);
+          }}
+          onComplete={verifyCode}
+          disabled={verifying}
+          autoFocus
+        >
+          <InputOTPGroup>
+            {Array.from({ length: CODE_LENGTH }).map((_, i) => (
+              <InputOTPSlot key={i} index={i} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => setCodeSent(false)}
+          className="text-primary hover:underline"
+        >
+          Change email
+        </button>
+        <button
+          type="button"
+          onClick={sendCode}
+          disabled={sending || cooldown > 0}
+          className="text-primary hover:underline disabled:text-gray-400 disabled:no-underline"
+        >
+          {cooldown > 0 ? `Resend code in ${cooldown}s` : "Resend code"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { NextReminders } from "./NextReminders";
+import ThumbnailImage from "@/components/ThumbnailImage";
+import { ImageIcon, Users } from "lucide-react";
+import type { DashboardClick } from "@/types/click";
+
+interface ClickCardProps {
+  click: DashboardClick;
+}
+
+export function ClickCard({ click }: ClickCardProps) {
+  const navigate = useNavigate();
+
+  return (
+    <Card
+      className="cursor-pointer hover:shadow-md transition-shadow overflow-hidden"
+      onClick={() => navigate(`/clicks/${click.id}`)}
+    >
+      <div className="aspect-video bg-muted flex items-center justify-center">
+        {click.cover ? (
+          <ThumbnailImage
+            src={click.cover.url}
+            thumbnailSrc={click.cover.thumbnailUrl}
+            alt=""
+            loading="lazy"
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <ImageIcon className="w-8 h-8 text-muted-foreground" />
+        )}
+      </div>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle>{click.name}</CardTitle>
+          <Badge variant={click.role === "admin" ? "default" : "secondary"}>
+            {click.role === "admin" ? "Admin" : "Member"}
+          </Badge>
+        </div>
+        <CardDescription className="flex items-center gap-1">
+          <Users className="w-4 h-4" />
+          {click.member_count} {click.member_count === 1 ? "member" : "members"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <NextReminders click={click} count={1} />
+        <p className="text-sm text-muted-foreground">
+          Created {new Date(click.created_at).toLocaleDateString()}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
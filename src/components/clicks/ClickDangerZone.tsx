@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { isOwner } from "@/lib/members";
+import { listClickFiles, removePostImageFiles } from "@/lib/post-images";
+import type { Click } from "@/types/click";
+
+interface ClickDangerZoneProps {
+  click: Click;
+}
+
+export function ClickDangerZone({ click }: ClickDangerZoneProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [confirmName, setConfirmName] = useState("");
+  const [working, setWorking] = useState(false);
+  const isArchived = !!click.archived_at;
+  const canDelete = isOwner(click, user?.id);
+
+  const showError = (error: unknown, fallback: string) => {
+    console.error("Error:", error);
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+    });
+  };
+
+  const toggleArchived = async () => {
+    setWorking(true);
+    try {
+      const { error } = await supabase
+        .from("clicks")
+        .update({ archived_at: isArchived ? null : new Date().toISOString() })
+        .eq("id", click.id);
+
+      if (error) throw error;
+
+      queryClient.invalidateQueries({ queryKey: ["click", click.id] });
+      queryClient.invalidateQueries({ queryKey: ["clicks", user?.id] });
+      toast({
+        title: isArchived ? "Click restored" : "Click archived",
+        description: isArchived
+          ? "Members can post again."
+          : "Members can still browse it, but no one can post.",
+      });
+    } catch (error) {
+      showError(error, "Failed to update Click");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const deleteClick = async () => {
+    setWorking(true);
+    try {
+      // The rows cascade, but stored files don't. They're listed while we're
+      // still a member and removed once the Click is really gone.
+      const files = await listClickFiles(click.id);
+
+      const { data, error } = await supabase
+        .from("clicks")
+        .delete()
+        .eq("id", click.id)
+        .select("id");
+
+      if (error) throw error;
+      // RLS hides rows it won't delete rather than raising an error
+      if (data.length === 0) throw new Error("Only the owner of this Click can delete it");
+
+      try {
+        await removePostImageFiles(files);
+      } catch (error) {
+        console.error("Error:", error);
+      }
+
+      queryClient.removeQueries({ queryKey: ["click", click.id] });
+      queryClient.invalidateQueries({ queryKey: ["clicks", user?.id] });
+      toast({ title: "Click deleted", description: `${click.name} is gone for everyone.` });
+      navigate("/dashboard", { replace: true });
+    } catch (error) {
+      showError(error, "Failed to delete Click");
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="font-medium">{isArchived ? "Restore this Click" : "Archive this Click"}</p>
+          <p className="text-sm text-muted-foreground">
+            {isArchived
+              ? "Let members post and get reminders again."
+              : "Keep the photos but stop new posts and reminders."}
+          </p>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" disabled={working}>
+              {isArchived ? "Restore" : "Archive"}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {isArchived ? `Restore ${click.name}?` : `Archive ${click.name}?`}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {isArchived
+                  ? "Members will be able to post again and scheduled reminders will resume."
+                  : "Members will still see past posts, but no one can post and reminders stop. You can restore it later."}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={toggleArchived}>
+                {isArchived ? "Restore" : "Archive"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="font-medium">Delete this Click</p>
+          <p className="text-sm text-muted-foreground">
+            {canDelete
+              ? "Permanently removes every post, comment and member. This can't be undone."
+              : "Only the owner of this Click can delete it."}
+          </p>
+        </div>
+        <AlertDialog onOpenChange={() => setConfirmName("")}>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" disabled={working || !canDelete}>
+              Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {click.name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                All of its posts, photos, comments and memberships will be deleted for everyone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-click-name">Type the Click's name to confirm</Label>
+              <Input
+                id="confirm-click-name"
+                value={confirmName}
+                onChange={(e) => setConfirmName(e.target.value)}
+                autoComplete="off"
+              />
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={deleteClick}
+                disabled={confirmName !== click.name}
+                className={buttonVariants({ variant: "destructive" })}
+              >
+                Delete Click
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useEffect, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { useSignedPostImage } from "@/hooks/use-signed-post-image";
+import { ScheduleEditor } from "./ScheduleEditor";
+import { POST_IMAGE_OPTIONS, processImage, thumbnailPath } from "@/lib/image-processing";
+import {
+  scheduleColumnsFromFormValue,
+  scheduleFormSchema,
+  scheduleFormValueFromClick,
+} from "@/lib/schedule";
+import { POST_IMAGES_BUCKET, storagePathFromPublicUrl } from "@/lib/storage";
+import { ImageIcon, Upload, X } from "lucide-react";
+import type { Click } from "@/types/click";
+
+const clickSettingsSchema = z.object({
+  name: z.string().trim().min(3, "Name must be at least 3 characters").max(50),
+  description: z.string().trim().max(200, "Keep the description under 200 characters"),
+  schedule: scheduleFormSchema,
+});
+
+type FormData = z.infer<typeof clickSettingsSchema>;
+
+const formValuesFromClick = (click: Click): FormData => ({
+  name: click.name,
+  description: click.description ?? "",
+  schedule: scheduleFormValueFromClick(click),
+});
+
+// A newly picked file, the existing cover (unchanged), or no cover at all
+type CoverChange = { kind: "keep" } | { kind: "replace"; file: File } | { kind: "remove" };
+
+interface ClickSettingsFormProps {
+  click: Click;
+}
+
+export function ClickSettingsForm({ click }: ClickSettingsFormProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [cover, setCover] = useState<CoverChange>({ kind: "keep" });
+  const [coverPreview, setCoverPreview] = useState<string | null>(null);
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(clickSettingsSchema),
+    defaultValues: formValuesFromClick(click),
+  });
+
+  useEffect(() => {
+    if (cover.kind !== "replace") {
+      setCoverPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(cover.file);
+    setCoverPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [cover]);
+
+  const { data: savedCover } = useSignedPostImage(click.cover_image_url);
+  const shownCover =
+    cover.kind === "replace" ? coverPreview : cover.kind === "keep" ? savedCover?.url : null;
+
+  const uploadCover = async (file: File) => {
+    const { image, thumbnail, extension } = await processImage(file, POST_IMAGE_OPTIONS);
+    const path = `${click.id}/cover/${crypto.randomUUID()}.${extension}`;
+
+    const { error: uploadError } = await supabase.storage.from(POST_IMAGES_BUCKET).upload(path, image);
+    if (uploadError) throw uploadError;
+
+    const { error: thumbnailError } = await supabase.storage
+      .from(POST_IMAGES_BUCKET)
+      .upload(thumbnailPath(path), thumbnail);
+    if (thumbnailError) {
+      await supabase.storage.from(POST_IMAGES_BUCKET).remove([path]);
+      throw thumbnailError;
+    }
+
+    return supabase.storage.from(POST_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+  };
+
+  const onSubmit = async (data: FormData) => {
+    try {
+      let coverImageUrl = click.cover_image_url;
+      if (cover.kind === "replace") coverImageUrl = await uploadCover(cover.file);
+      if (cover.kind === "remove") coverImageUrl = null;
+
+      const { error } = await supabase
+        .from("clicks")
+        .update({
+          name: data.name,
+          description: data.description || null,
+          cover_image_url: coverImageUrl,
+          ...scheduleColumnsFromFormValue(data.schedule),
+        })
+        .eq("id", click.id);
+
+      if (error) throw error;
+
+      // The old cover is unreachable now, so tidy it up without failing the save
+      const oldPath =
+        cover.kind !== "keep" && click.cover_image_url
+          ? storagePathFromPublicUrl(POST_IMAGES_BUCKET, click.cover_image_url)
+          : null;
+      if (oldPath) {
+        supabase.storage.from(POST_IMAGES_BUCKET).remove([oldPath, thumbnailPath(oldPath)]);
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["click", click.id] });
+      queryClient.invalidateQueries({ queryKey: ["clicks", user?.id] });
+
+      setCover({ kind: "keep" });
+      form.reset(data);
+      toast({
+        title: "Success",
+        description: "Click settings saved.",
+      });
+    } catch (error) {
+      console.error("Error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save settings",
+      });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input autoComplete="off" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea placeholder="What's this Click about?" rows={3} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="space-y-2">
+          <Label>Cover photo</Label>
+          <div className="aspect-video rounded-md bg-muted flex items-center justify-center overflow-hidden">
+            {shownCover ? (
+              <img src={shownCover} alt="" className="w-full h-full object-cover" />
+            ) : (
+              <div className="text-center text-sm text-muted-foreground space-y-1">
+                <ImageIcon className="w-8 h-8 mx-auto" />
+                <p>Without a cover, the newest photo is used.</p>
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              {shownCover ? "Change cover" : "Upload cover"}
+            </Button>
+            {shownCover && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setCover(click.cover_image_url ? { kind: "remove" } : { kind: "keep" })}
+              >
+                <X className="w-4 h-4 mr-2" />
+                Remove
+              </Button>
+            )}
+          </div>
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) setCover({ kind: "replace", file });
+              event.target.value = "";
+            }}
+            className="hidden"
+            accept="image/*"
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="schedule"
+          render={({ field }) => (
+            <FormItem>
+              <ScheduleEditor
+                value={field.value}
+                onChange={field.onChange}
+                errors={{
+                  day: form.formState.errors.schedule?.day?.message,
+                  time: form.formState.errors.schedule?.time?.message,
+                  timeZone: form.formState.errors.schedule?.timeZone?.message,
+                }}
+              />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              form.reset(formValuesFromClick(click));
+              setCover({ kind: "keep" });
+            }}
+            disabled={form.formState.isSubmitting}
+          >
+            Discard changes
+          </Button>
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -22,13 +22,22 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/components/ui/use-toast";
 import { Plus } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useQueryClient } from "@tanstack/react-query";
+import { ScheduleEditor } from "./ScheduleEditor";
+import {
+  scheduleColumnsFromFormValue,
+  scheduleFormSchema,
+  scheduleFormValueFromClick,
+} from "@/lib/schedule";
 
 const createClickSchema = z.object({
   name: z.string().min(3, "Name must be at least 3 characters").max(50),
+  description: z.string().max(200).optional(),
+  schedule: scheduleFormSchema,
 });
 
 type FormData = z.infer<typeof createClickSchema>;
@@ -43,6 +52,8 @@ export function CreateClickDialog() {
     resolver: zodResolver(createClickSchema),
     defaultValues: {
       name: "",
+      description: "",
+      schedule: scheduleFormValueFromClick(undefined),
     },
   });
 
@@ -52,29 +63,18 @@ export function CreateClickDialog() {
         throw new Error("You must be logged in to create a Click");
       }
 
-      // Create the click
-      const { data: newClick, error: clickError } = await supabase
-        .from('clicks')
-        .insert({
-          name: data.name,
-          created_by: user.id,
-          description: "Click members" // Adding a default description
-        })
-        .select()
-        .single();
-
-      if (clickError) throw clickError;
-
-      // Create the creator as an admin member
-      const { error: memberError } = await supabase
-        .from('click_members')
-        .insert({
-          click_id: newClick.id,
-          user_id: user.id,
-          role: 'admin'
-        });
-
-      if (memberError) throw memberError;
+      // Creates the Click and the creator's admin membership together
+      const schedule = scheduleColumnsFromFormValue(data.schedule);
+      const { error } = await supabase.rpc("create_click", {
+        click_name: data.name,
+        click_description: data.description || undefined,
+        click_schedule_frequency: schedule.schedule_frequency ?? undefined,
+        click_schedule_day: schedule.schedule_day ?? undefined,
+        click_schedule_time: schedule.schedule_time ?? undefined,
+        click_schedule_timezone: schedule.schedule_timezone,
+      });
+
+      if (error) throw error;
 
       // Invalidate the clicks query to refresh the dashboard
       queryClient.invalidateQueries({ queryKey: ["clicks", user.id] });
@@ -109,7 +109,7 @@ export function CreateClickDialog() {
         <DialogHeader>
           <DialogTitle>Create a new Click</DialogTitle>
           <DialogDescription>
-            Give your Click a name. You can customize other settings later.
+            Give your Click a name and, if you like, a reminder schedule. You can change these later.
           </DialogDescription>
         </DialogHeader>
 
@@ -133,6 +133,38 @@ export function CreateClickDialog() {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="What's this Click about? (optional)" rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="schedule"
+              render={({ field }) => (
+                <FormItem>
+                  <ScheduleEditor
+                    value={field.value}
+                    onChange={field.onChange}
+                    errors={{
+                      day: form.formState.errors.schedule?.day?.message,
+                      time: form.formState.errors.schedule?.time?.message,
+                      timeZone: form.formState.errors.schedule?.timeZone?.message,
+                    }}
+                  />
+                </FormItem>
+              )}
+            />
+
             <div className="flex justify-end space-x-2">
               <Button
                 type="button"
@@ -144,7 +176,9 @@ export function CreateClickDialog() {
               >
                 Cancel
               </Button>
-              <Button type="submit">Create Click</Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Create Click
+              </Button>
             </div>
           </form>
         </Form>
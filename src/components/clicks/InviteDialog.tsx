@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useClickInvites, useCreateInvite, useRevokeInvite } from "@/hooks/use-invites";
+import {
+  INVITE_EXPIRY_OPTIONS,
+  inviteExpiresAt,
+  inviteUrl,
+  isInviteActive,
+  type InviteExpiry,
+} from "@/lib/invites";
+import { Copy, Link2, X } from "lucide-react";
+import type { ClickInvite } from "@/types/invite";
+
+const inviteSchema = z.object({
+  role: z.enum(["member", "admin"]),
+  expiry: z.enum(["1", "7", "30", "never"]),
+  maxUses: z
+    .string()
+    .trim()
+    .refine((value) => value === "" || (/^\d+$/.test(value) && Number(value) > 0), {
+      message: "Enter a whole number, or leave empty for unlimited",
+    }),
+});
+
+type FormData = z.infer<typeof inviteSchema>;
+
+const defaultValues: FormData = { role: "member", expiry: "7", maxUses: "" };
+
+interface InviteDialogProps {
+  clickId: string;
+}
+
+function describeInvite(invite: ClickInvite) {
+  const parts = [invite.role === "admin" ? "Joins as admin" : "Joins as member"];
+  parts.push(
+    invite.max_uses === null
+      ? `${invite.use_count} used`
+      : `${invite.use_count} of ${invite.max_uses} used`
+  );
+  if (invite.expires_at) {
+    parts.push(
+      new Date(invite.expires_at) > new Date()
+        ? `expires ${formatDistanceToNow(new Date(invite.expires_at), { addSuffix: true })}`
+        : "expired"
+    );
+  }
+  return parts.join(" · ");
+}
+
+export function InviteDialog({ clickId }: InviteDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const { data: invites } = useClickInvites(clickId, open);
+  const createInvite = useCreateInvite(clickId);
+  const revokeInvite = useRevokeInvite(clickId);
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues,
+  });
+
+  const copyLink = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(code));
+      toast({ title: "Link copied", description: "Share it with the people you want to invite." });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Couldn't copy the link. Copy it from the list instead.",
+      });
+    }
+  };
+
+  const onSubmit = async (data: FormData) => {
+    try {
+      const invite = await createInvite.mutateAsync({
+        role: data.role,
+        expires_at: inviteExpiresAt(data.expiry as InviteExpiry),
+        max_uses: data.maxUses ? Number(data.maxUses) : null,
+      });
+      form.reset(defaultValues);
+      await copyLink(invite.code);
+    } catch (error) {
+      console.error("Error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create invite",
+      });
+    }
+  };
+
+  const onRevoke = async (inviteId: string) => {
+    try {
+      await revokeInvite.mutateAsync(inviteId);
+      toast({ title: "Invite revoked", description: "That link no longer works." });
+    } catch (error) {
+      console.error("Error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke invite",
+      });
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) form.reset(defaultValues);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Link2 className="w-4 h-4 mr-2" />
+          Invite
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Invite people</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can join this Click until it expires or you revoke it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="member">Member</SelectItem>
+                        <SelectItem value="admin">Admin</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expiry"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expires after</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {INVITE_EXPIRY_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxUses"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max uses</FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" placeholder="No limit" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+            {form.formState.errors.maxUses && (
+              <p className="text-sm font-medium text-destructive">
+                {form.formState.errors.maxUses.message}
+              </p>
+            )}
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Create link
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        {invites && invites.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Links</h3>
+            <ul className="divide-y rounded-md border">
+              {invites.map((invite) => {
+                const active = isInviteActive(invite);
+                return (
+                  <li key={invite.id} className="flex items-center gap-2 p-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <code className="text-sm font-medium">{invite.code}</code>
+                        {!active && <Badge variant="secondary">Inactive</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">{describeInvite(invite)}</p>
+                    </div>
+                    {active && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Copy invite link"
+                        onClick={() => copyLink(invite.code)}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Revoke invite"
+                      onClick={() => onRevoke(invite.id)}
+                      disabled={revokeInvite.isPending}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
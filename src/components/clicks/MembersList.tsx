@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { useAuth } from "@/contexts/AuthContext";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import AvatarThumbnail from "@/components/AvatarThumbnail";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { useLeaveClick, useMemberAction } from "@/hooks/use-member-actions";
+import { allowedMemberActions, isOwner, leaveBlockedReason } from "@/lib/members";
+import { displayName } from "@/lib/profiles";
+import { LogOut, MoreHorizontal } from "lucide-react";
+import type { Click, ClickMemberWithProfile, MemberAction } from "@/types/click";
+
+const ACTION_LABELS: Record<MemberAction, string> = {
+  promote: "Make admin",
+  demote: "Remove admin",
+  remove: "Remove from Click",
+  transfer: "Transfer ownership",
+};
+
+// Actions that are hard to undo get a confirmation step
+type PendingAction = { member: ClickMemberWithProfile; action: "remove" | "transfer" };
+
+interface MembersListProps {
+  click: Click;
+  members: ClickMemberWithProfile[];
+}
+
+export function MembersList({ click, members }: MembersListProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const memberAction = useMemberAction(click.id);
+  const leaveClick = useLeaveClick(click.id);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [confirmLeave, setConfirmLeave] = useState(false);
+
+  const viewer = members.find((member) => member.user_id === user?.id);
+  const leaveBlocked = user ? leaveBlockedReason(click, members, user.id) : null;
+
+  const showError = (error: unknown) => {
+    console.error("Error:", error);
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error instanceof Error ? error.message : "Something went wrong",
+    });
+  };
+
+  const runAction = (member: ClickMemberWithProfile, action: MemberAction) => {
+    memberAction.mutate(
+      { memberId: member.user_id, action },
+      {
+        onSuccess: () => {
+          if (action === "transfer") {
+            toast({
+              title: "Ownership transferred",
+              description: `${displayName(member.profile)} now owns this Click.`,
+            });
+          }
+        },
+        onError: showError,
+      }
+    );
+  };
+
+  const handleSelect = (member: ClickMemberWithProfile, action: MemberAction) => {
+    if (action === "remove" || action === "transfer") {
+      setPending({ member, action });
+    } else {
+      runAction(member, action);
+    }
+  };
+
+  const handleLeave = async () => {
+    try {
+      await leaveClick.mutateAsync();
+      toast({ title: "Left Click", description: `You're no longer a member of ${click.name}.` });
+      navigate("/dashboard", { replace: true });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y">
+        {members.map((member) => {
+          const name = displayName(member.profile);
+          const actions = allowedMemberActions(click, member, viewer);
+          return (
+            <li key={member.user_id} className="flex items-center gap-3 py-3">
+              <Avatar>
+                <AvatarThumbnail src={member.profile?.avatar_url} alt={name} />
+                <AvatarFallback>{name.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">
+                  {name}
+                  {member.user_id === user?.id && (
+                    <span className="text-muted-foreground font-normal"> (you)</span>
+                  )}
+                </p>
+                <p className="text-sm text-muted-foreground truncate">
+                  {member.profile?.username && `@${member.profile.username} · `}
+                  Joined {format(new Date(member.joined_at), "MMM d, yyyy")}
+                </p>
+              </div>
+              {isOwner(click, member.user_id) ? (
+                <Badge>Owner</Badge>
+              ) : (
+                member.role === "admin" && <Badge variant="secondary">Admin</Badge>
+              )}
+              {actions.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Manage ${name}`}
+                      disabled={memberAction.isPending}
+                    >
+                      <MoreHorizontal className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {actions.map((action) => (
+                      <DropdownMenuItem
+                        key={action}
+                        onSelect={() => handleSelect(member, action)}
+                        className={action === "remove" ? "text-destructive" : undefined}
+                      >
+                        {ACTION_LABELS[action]}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {viewer && (
+        <div className="flex flex-col items-end gap-2 border-t pt-4">
+          <Button
+            variant="outline"
+            onClick={() => setConfirmLeave(true)}
+            disabled={!!leaveBlocked || leaveClick.isPending}
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            Leave Click
+          </Button>
+          {leaveBlocked && <p className="text-sm text-muted-foreground">{leaveBlocked}</p>}
+        </div>
+      )}
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pending?.action === "transfer"
+                ? `Make ${displayName(pending.member.profile)} the owner?`
+                : `Remove ${displayName(pending?.member.profile)}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending?.action === "transfer"
+                ? "They'll become an admin and the owner of this Click. You'll stay on as an admin, but only they will be able to transfer ownership again."
+                : "They'll lose access to this Click's posts. They can only come back with a new invite."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pending) runAction(pending.member, pending.action);
+                setPending(null);
+              }}
+            >
+              {pending?.action === "transfer" ? "Transfer" : "Remove"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={confirmLeave} onOpenChange={setConfirmLeave}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave {click.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You'll stop seeing its posts and reminders. You'll need a new invite to rejoin.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleLeave}>Leave</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
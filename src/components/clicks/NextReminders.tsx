@@ -0,0 +1,30 @@
+import {
+  describeSchedule,
+  formatOccurrence,
+  getNextOccurrences,
+  scheduleFromClick,
+} from "@/lib/schedule";
+import { CalendarClock } from "lucide-react";
+import type { Click } from "@/types/click";
+
+interface NextRemindersProps {
+  click: Click;
+  count?: number;
+}
+
+export function NextReminders({ click, count = 3 }: NextRemindersProps) {
+  const schedule = scheduleFromClick(click);
+  if (!schedule) return null;
+
+  const occurrences = getNextOccurrences(schedule, count);
+
+  return (
+    <div className="flex items-start gap-2 text-sm text-muted-foreground">
+      <CalendarClock className="w-4 h-4 mt-0.5 shrink-0" />
+      <div>
+        <p className="font-medium text-foreground">{describeSchedule(schedule)}</p>
+        <p>Next: {occurrences.map(formatOccurrence).join(" · ")}</p>
+      </div>
+    </div>
+  );
+}
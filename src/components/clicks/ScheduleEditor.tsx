@@ -0,0 +1,171 @@
+import { useMemo } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  WEEKDAYS,
+  describeSchedule,
+  formatOccurrence,
+  getNextOccurrences,
+  isValidTimeZone,
+  type ClickSchedule,
+  type ScheduleFormValue,
+} from "@/lib/schedule";
+
+interface ScheduleEditorProps {
+  value: ScheduleFormValue;
+  onChange: (value: ScheduleFormValue) => void;
+  errors?: Partial<Record<keyof ScheduleFormValue, string>>;
+}
+
+const DAYS_OF_MONTH = Array.from({ length: 31 }, (_, i) => i + 1);
+
+// Intl.supportedValuesOf isn't in our TS lib target yet
+const supportedTimeZones = (fallback: string) => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf?.("timeZone") ?? [];
+  return zones.includes(fallback) ? zones : [fallback, ...zones];
+};
+
+export function ScheduleEditor({ value, onChange, errors }: ScheduleEditorProps) {
+  const timeZones = useMemo(() => supportedTimeZones(value.timeZone), [value.timeZone]);
+  const update = (changes: Partial<ScheduleFormValue>) => onChange({ ...value, ...changes });
+
+  const preview = useMemo(() => {
+    if (value.frequency === "none" || !value.time) return null;
+    if (value.frequency !== "daily" && value.day === null) return null;
+    if (!isValidTimeZone(value.timeZone)) return null;
+
+    const schedule: ClickSchedule = {
+      frequency: value.frequency,
+      day: value.day,
+      time: value.time,
+      timeZone: value.timeZone,
+    };
+    return {
+      description: describeSchedule(schedule),
+      next: getNextOccurrences(schedule, 3),
+    };
+  }, [value]);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Reminders</Label>
+        <Select
+          value={value.frequency}
+          onValueChange={(frequency: ScheduleFormValue["frequency"]) =>
+            update({
+              frequency,
+              day: frequency === "weekly" ? 1 : frequency === "monthly" ? 1 : null,
+            })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No reminders</SelectItem>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.frequency === "weekly" && (
+        <div className="space-y-2">
+          <Label>Day of the week</Label>
+          <Select
+            value={value.day?.toString()}
+            onValueChange={(day) => update({ day: Number(day) })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a day" />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEKDAYS.map((weekday, index) => (
+                <SelectItem key={weekday} value={index.toString()}>
+                  {weekday}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {errors?.day && <p className="text-sm font-medium text-destructive">{errors.day}</p>}
+        </div>
+      )}
+
+      {value.frequency === "monthly" && (
+        <div className="space-y-2">
+          <Label>Day of the month</Label>
+          <Select
+            value={value.day?.toString()}
+            onValueChange={(day) => update({ day: Number(day) })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a day" />
+            </SelectTrigger>
+            <SelectContent>
+              {DAYS_OF_MONTH.map((day) => (
+                <SelectItem key={day} value={day.toString()}>
+                  {day}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {value.day !== null && value.day > 28 && (
+            <p className="text-sm text-muted-foreground">
+              In shorter months the reminder goes out on the last day.
+            </p>
+          )}
+          {errors?.day && <p className="text-sm font-medium text-destructive">{errors.day}</p>}
+        </div>
+      )}
+
+      {value.frequency !== "none" && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="schedule-time">Time</Label>
+            <Input
+              id="schedule-time"
+              type="time"
+              value={value.time}
+              onChange={(e) => update({ time: e.target.value })}
+            />
+            {errors?.time && <p className="text-sm font-medium text-destructive">{errors.time}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label>Time zone</Label>
+            <Select value={value.timeZone} onValueChange={(timeZone) => update({ timeZone })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZones.map((zone) => (
+                  <SelectItem key={zone} value={zone}>
+                    {zone.replace(/_/g, " ")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {preview && (
+        <div className="rounded-md bg-muted p-3 text-sm">
+          <p className="font-medium">{preview.description}</p>
+          <p className="text-muted-foreground">
+            Next: {preview.next.map(formatOccurrence).join(" · ")}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+interface CommentFormProps {
+  initialValue?: string;
+  placeholder?: string;
+  submitLabel: string;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+export function CommentForm({
+  initialValue = "",
+  placeholder = "Write a comment...",
+  submitLabel,
+  onSubmit,
+  onCancel,
+  autoFocus,
+}: CommentFormProps) {
+  const [content, setContent] = useState(initialValue);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = content.trim();
+    if (!trimmed) return;
+
+    setSubmitting(true);
+    const saved = await onSubmit(trimmed);
+    setSubmitting(false);
+    if (saved) setContent("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={placeholder}
+        className="min-h-[60px]"
+        autoFocus={autoFocus}
+        disabled={submitting}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={submitting || !content.trim()}>
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
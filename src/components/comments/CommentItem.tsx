@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import AvatarThumbnail from "@/components/AvatarThumbnail";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { CommentForm } from "./CommentForm";
+import { countReplies } from "@/lib/comments";
+import { displayName } from "@/lib/profiles";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import type { CommentNode } from "@/types/comment";
+
+// Threads this deep start collapsed so long conversations stay scannable
+const COLLAPSED_DEPTH = 2;
+
+export interface CommentActions {
+  reply: (parentId: string, content: string) => Promise<boolean>;
+  edit: (commentId: string, content: string) => Promise<boolean>;
+  remove: (commentId: string) => Promise<void>;
+}
+
+interface CommentItemProps {
+  node: CommentNode;
+  actions: CommentActions;
+}
+
+export function CommentItem({ node, actions }: CommentItemProps) {
+  const { user } = useAuth();
+  const { comment, author, replyingTo, children } = node;
+  const [collapsed, setCollapsed] = useState(node.depth >= COLLAPSED_DEPTH);
+  const [replying, setReplying] = useState(false);
+  const [editing, setEditing] = useState(false);
+
+  const isDeleted = !!comment.deleted_at;
+  const name = isDeleted ? "Deleted comment" : displayName(author);
+  const isAuthor = user?.id === comment.user_id && !isDeleted;
+  const isEdited = comment.updated_at > comment.created_at && !isDeleted;
+  const replyCount = countReplies(node);
+
+  return (
+    <div className="flex gap-3">
+      <Avatar className="w-8 h-8">
+        <AvatarThumbnail src={isDeleted ? null : author?.avatar_url} alt={name} />
+        <AvatarFallback>{name.charAt(0).toUpperCase()}</AvatarFallback>
+      </Avatar>
+
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="rounded-lg bg-muted px-3 py-2">
+          <p className="text-sm font-medium">
+            {name}
+            {replyingTo && (
+              <span className="font-normal text-muted-foreground">
+                {" "}replying to {displayName(replyingTo)}
+              </span>
+            )}
+          </p>
+          {editing ? (
+            <CommentForm
+              initialValue={comment.content}
+              submitLabel="Save"
+              autoFocus
+              onSubmit={async (content) => {
+                const saved = await actions.edit(comment.id, content);
+                if (saved) setEditing(false);
+                return saved;
+              }}
+              onCancel={() => setEditing(false)}
+            />
+          ) : isDeleted ? (
+            <p className="text-sm italic text-muted-foreground">[deleted]</p>
+          ) : (
+            <p className="text-sm whitespace-pre-wrap break-words">{comment.content}</p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <span className="px-2">
+            {new Date(comment.created_at).toLocaleString()}
+            {isEdited && " (edited)"}
+          </span>
+          {!isDeleted && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setReplying(!replying)}>
+              Reply
+            </Button>
+          )}
+          {isAuthor && !editing && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setEditing(true)}>
+              Edit
+            </Button>
+          )}
+          {isAuthor && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+                  Delete
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete comment?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {replyCount > 0
+                      ? "Its replies will stay, under a placeholder. This can't be undone."
+                      : "This can't be undone."}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => actions.remove(comment.id)}>
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+
+        {replying && (
+          <CommentForm
+            placeholder={`Reply to ${name}...`}
+            submitLabel="Reply"
+            autoFocus
+            onSubmit={async (content) => {
+              const saved = await actions.reply(comment.id, content);
+              if (saved) {
+                setReplying(false);
+                setCollapsed(false);
+              }
+              return saved;
+            }}
+            onCancel={() => setReplying(false)}
+          />
+        )}
+
+        {children.length > 0 && (
+          <div className="pt-2">
+            <button
+              type="button"
+              className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground"
+              onClick={() => setCollapsed(!collapsed)}
+            >
+              {collapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+              {collapsed
+                ? `Show ${replyCount} ${replyCount === 1 ? "reply" : "replies"}`
+                : "Hide replies"}
+            </button>
+            {!collapsed && (
+              <div className="mt-3 space-y-3">
+                {children.map((child) => (
+                  <CommentItem key={child.comment.id} node={child} actions={actions} />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
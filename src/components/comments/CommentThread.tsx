@@ -0,0 +1,110 @@
+import { useMemo } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/components/ui/use-toast";
+import { useComments } from "@/hooks/use-comments";
+import { buildCommentTree } from "@/lib/comments";
+import { CommentForm } from "./CommentForm";
+import { CommentItem, type CommentActions } from "./CommentItem";
+
+interface CommentThreadProps {
+  postId: string;
+  clickId: string;
+}
+
+export function CommentThread({ postId, clickId }: CommentThreadProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useComments(postId);
+
+  const tree = useMemo(
+    () => (data ? buildCommentTree(data.comments, data.profilesById) : []),
+    [data]
+  );
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["comments", postId] });
+    queryClient.invalidateQueries({ queryKey: ["posts", clickId] });
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    console.error("Error:", error);
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+    });
+  };
+
+  const addComment = async (content: string, parentId: string | null = null) => {
+    try {
+      const { error } = await supabase
+        .from("comments")
+        .insert({
+          post_id: postId,
+          user_id: user?.id,
+          parent_id: parentId,
+          content,
+        });
+
+      if (error) throw error;
+      refresh();
+      return true;
+    } catch (error) {
+      showError(error, "Failed to post comment");
+      return false;
+    }
+  };
+
+  const actions: CommentActions = {
+    reply: (parentId, content) => addComment(content, parentId),
+    edit: async (commentId, content) => {
+      try {
+        const { error } = await supabase
+          .from("comments")
+          .update({ content, updated_at: new Date().toISOString() })
+          .eq("id", commentId);
+
+        if (error) throw error;
+        refresh();
+        return true;
+      } catch (error) {
+        showError(error, "Failed to update comment");
+        return false;
+      }
+    },
+    remove: async (commentId) => {
+      try {
+        // Comments with replies become placeholders so the replies stay put
+        const { error } = await supabase.rpc("delete_comment", {
+          target_comment_id: commentId,
+        });
+
+        if (error) throw error;
+        refresh();
+      } catch (error) {
+        showError(error, "Failed to delete comment");
+      }
+    },
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-12 w-full" />
+          <Skeleton className="h-12 w-3/4" />
+        </div>
+      ) : (
+        tree.map((node) => (
+          <CommentItem key={node.comment.id} node={node} actions={actions} />
+        ))
+      )}
+
+      <CommentForm submitLabel="Comment" onSubmit={(content) => addComment(content)} />
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import AvatarThumbnail from "@/components/AvatarThumbnail";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { useFriendAction } from "@/hooks/use-friends";
+import { allowedFriendActions, getRelationship } from "@/lib/friends";
+import { displayName } from "@/lib/profiles";
+import { useAuth } from "@/contexts/AuthContext";
+import type { FriendAction, Friendship } from "@/types/friend";
+import type { Profile } from "@/types/profile";
+
+const ACTION_LABELS: Record<FriendAction, string> = {
+  request: "Add friend",
+  accept: "Accept",
+  decline: "Decline",
+  cancel: "Cancel request",
+  unfriend: "Unfriend",
+  block: "Block",
+  unblock: "Unblock",
+};
+
+const DESTRUCTIVE_ACTIONS: FriendAction[] = ["decline", "unfriend", "block"];
+
+interface FriendRowProps {
+  profile: Profile | null;
+  otherId: string;
+  friendship: Friendship | null | undefined;
+}
+
+export function FriendRow({ profile, otherId, friendship }: FriendRowProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const friendAction = useFriendAction();
+  const name = displayName(profile);
+  const actions = allowedFriendActions(getRelationship(friendship, user!.id));
+
+  const handleAction = (action: FriendAction) => {
+    friendAction.mutate(
+      { otherId, action, friendship },
+      {
+        onError: (error) => {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: error instanceof Error ? error.message : "Something went wrong",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <li className="flex items-center gap-3 py-3">
+      <Avatar>
+        <AvatarThumbnail src={profile?.avatar_url} alt={name} />
+        <AvatarFallback>{name.charAt(0).toUpperCase()}</AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium truncate">{name}</p>
+        {profile?.username && (
+          <p className="text-sm text-muted-foreground truncate">@{profile.username}</p>
+        )}
+      </div>
+      <div className="flex gap-2">
+        {actions.map((action) => (
+          <Button
+            key={action}
+            size="sm"
+            variant={DESTRUCTIVE_ACTIONS.includes(action) ? "outline" : "default"}
+            disabled={friendAction.isPending}
+            onClick={() => handleAction(action)}
+          >
+            {ACTION_LABELS[action]}
+          </Button>
+        ))}
+      </div>
+    </li>
+  );
+}
@@ -0,0 +1,135 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import AvatarThumbnail from "@/components/AvatarThumbnail";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/components/ui/use-toast";
+import { useMarkNotificationsRead, useNotifications } from "@/hooks/use-notifications";
+import {
+  describeNotificationGroup,
+  groupNotifications,
+  notificationLink,
+} from "@/lib/notifications";
+import { displayName } from "@/lib/profiles";
+import { cn } from "@/lib/utils";
+import { Bell, Check } from "lucide-react";
+import type { NotificationGroup } from "@/types/notification";
+
+const unreadIds = (group: NotificationGroup) =>
+  group.notifications.filter((notification) => !notification.read_at).map(({ id }) => id);
+
+export function NotificationBell() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const { data: notifications, isLoading } = useNotifications();
+  const markRead = useMarkNotificationsRead();
+
+  const groups = useMemo(() => groupNotifications(notifications ?? []), [notifications]);
+  const unreadCount = groups.filter((group) => group.unread).length;
+
+  const showError = (error: unknown) => {
+    console.error("Error:", error);
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error instanceof Error ? error.message : "Could not update notifications",
+    });
+  };
+
+  const handleOpen = (group: NotificationGroup) => {
+    if (group.unread) markRead.mutate(unreadIds(group), { onError: showError });
+    setOpen(false);
+    navigate(notificationLink(group));
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold leading-none text-destructive-foreground">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <h2 className="font-semibold">Notifications</h2>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={unreadCount === 0 || markRead.isPending}
+            onClick={() => markRead.mutate(undefined, { onError: showError })}
+          >
+            Mark all read
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3 p-4">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">
+            You're all caught up.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <ul className="divide-y">
+              {groups.map((group) => {
+                const [actor] = group.actors;
+                const name = displayName(actor);
+                return (
+                  <li key={group.key} className={cn("flex items-start", group.unread && "bg-muted/50")}>
+                    <button
+                      type="button"
+                      className="flex flex-1 items-start gap-3 px-4 py-3 text-left hover:bg-muted"
+                      onClick={() => handleOpen(group)}
+                    >
+                      <Avatar className="w-8 h-8">
+                        <AvatarThumbnail src={actor?.avatar_url} alt={name} />
+                        <AvatarFallback>{name.charAt(0).toUpperCase()}</AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 space-y-0.5">
+                        <p className={cn("text-sm", group.unread && "font-medium")}>
+                          {describeNotificationGroup(group)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(group.latest_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                    </button>
+                    {group.unread && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="mr-2 mt-2 h-8 w-8 shrink-0"
+                        aria-label="Mark as read"
+                        onClick={() => markRead.mutate(unreadIds(group), { onError: showError })}
+                      >
+                        <Check className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
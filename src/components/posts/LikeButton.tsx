@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import AvatarThumbnail from "@/components/AvatarThumbnail";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/components/ui/use-toast";
+import { useLikedBy, useToggleLike } from "@/hooks/use-likes";
+import { displayName } from "@/lib/profiles";
+import { cn } from "@/lib/utils";
+import { Heart } from "lucide-react";
+import type { FeedPost } from "@/types/post";
+
+interface LikeButtonProps {
+  post: FeedPost;
+}
+
+export function LikeButton({ post }: LikeButtonProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const toggleLike = useToggleLike(post.click_id);
+  const { data: likedBy, isLoading } = useLikedBy(post.id, open);
+
+  const handleToggle = () => {
+    toggleLike.mutate(
+      { postId: post.id, liked: !post.liked_by_me },
+      {
+        onError: (error) => {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to update like",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <span className="flex items-center gap-1">
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="hover:text-foreground"
+        aria-label={post.liked_by_me ? "Unlike" : "Like"}
+        aria-pressed={post.liked_by_me}
+      >
+        <Heart
+          className={cn("w-4 h-4", post.liked_by_me && "fill-red-500 text-red-500")}
+        />
+      </button>
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className="hover:text-foreground hover:underline disabled:no-underline"
+            disabled={post.like_count === 0}
+          >
+            {post.like_count}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-2">
+          <p className="px-2 py-1 text-sm font-medium">Liked by</p>
+          <ul className="max-h-64 overflow-y-auto">
+            {isLoading ? (
+              <li className="px-2 py-1">
+                <Skeleton className="h-8 w-full" />
+              </li>
+            ) : (
+              likedBy?.map(({ user_id, profile }) => {
+                const name = displayName(profile);
+                return (
+                  <li key={user_id} className="flex items-center gap-2 px-2 py-1">
+                    <Avatar className="w-7 h-7">
+                      <AvatarThumbnail src={profile?.avatar_url} alt={name} />
+                      <AvatarFallback>{name.charAt(0).toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm truncate">{name}</span>
+                  </li>
+                );
+              })
+            )}
+          </ul>
+        </PopoverContent>
+      </Popover>
+    </span>
+  );
+}
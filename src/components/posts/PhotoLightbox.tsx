@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useState } from "react";
+import * as DialogPrimitive from "@radix-ui/react-dialog";
+import { Dialog, DialogOverlay, DialogPortal, DialogTitle } from "@/components/ui/dialog";
+import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from "@/components/ui/carousel";
+import { Button } from "@/components/ui/button";
+import { ZoomableImage } from "./ZoomableImage";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import type { FeedPostImage } from "@/types/post";
+
+/** Route state set by links in the feed, so closing can go back instead. */
+export interface LightboxLinkState {
+  fromFeed?: boolean;
+}
+
+interface PhotoLightboxProps {
+  images: FeedPostImage[];
+  // Zero-based position in `images`, which are already sorted by `order`
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  caption?: string | null;
+}
+
+export function PhotoLightbox({ images, index, onIndexChange, onClose, caption }: PhotoLightboxProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [zoomed, setZoomed] = useState(false);
+
+  // Follow index changes from outside, e.g. the browser's back button
+  useEffect(() => {
+    if (api && api.selectedScrollSnap() !== index) api.scrollTo(index);
+  }, [api, index]);
+
+  useEffect(() => {
+    if (!api) return;
+    const handleSelect = () => onIndexChange(api.selectedScrollSnap());
+    api.on("select", handleSelect);
+    return () => {
+      api.off("select", handleSelect);
+    };
+  }, [api, onIndexChange]);
+
+  // Escape is handled by the dialog; the carousel only sees arrow keys while
+  // it has focus, so catch the rest here
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.defaultPrevented) return;
+    if (event.key === "ArrowLeft") {
+      event.preventDefault();
+      api?.scrollPrev();
+    } else if (event.key === "ArrowRight") {
+      event.preventDefault();
+      api?.scrollNext();
+    }
+  };
+
+  const handleZoomChange = useCallback((value: boolean) => setZoomed(value), []);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogPortal>
+        <DialogOverlay className="bg-black/95" />
+        <DialogPrimitive.Content
+          className="fixed inset-0 z-50 flex flex-col text-white focus:outline-none"
+          onKeyDown={handleKeyDown}
+          aria-describedby={undefined}
+        >
+          <div className="flex items-center justify-between p-4">
+            <DialogTitle className="text-sm font-medium">
+              {images.length > 1 ? `${index + 1} of ${images.length}` : "Photo"}
+            </DialogTitle>
+            <DialogPrimitive.Close asChild>
+              <Button variant="ghost" size="icon" className="text-white hover:bg-white/10 hover:text-white">
+                <X className="w-5 h-5" />
+                <span className="sr-only">Close</span>
+              </Button>
+            </DialogPrimitive.Close>
+          </div>
+
+          {/* The viewport Embla renders around CarouselContent has to fill too */}
+          <Carousel
+            setApi={setApi}
+            opts={{ startIndex: index, watchDrag: !zoomed }}
+            className="relative flex-1 min-h-0 [&>div:first-child]:h-full"
+          >
+            <CarouselContent className="h-full ml-0">
+              {images.map((image, i) => (
+                <CarouselItem key={image.id} className="h-full pl-0">
+                  {/* Only the visible photo keeps its zoom; others reset */}
+                  <ZoomableImage
+                    key={i === index ? "active" : "inactive"}
+                    src={image.signed?.url ?? image.image_url}
+                    alt={`Photo ${i + 1} of ${images.length}`}
+                    onZoomChange={i === index ? handleZoomChange : undefined}
+                  />
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+
+            {images.length > 1 && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="absolute left-2 top-1/2 -translate-y-1/2 text-white hover:bg-white/10 hover:text-white"
+                  onClick={() => api?.scrollPrev()}
+                  disabled={index === 0}
+                >
+                  <ChevronLeft className="w-6 h-6" />
+                  <span className="sr-only">Previous photo</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="absolute right-2 top-1/2 -translate-y-1/2 text-white hover:bg-white/10 hover:text-white"
+                  onClick={() => api?.scrollNext()}
+                  disabled={index === images.length - 1}
+                >
+                  <ChevronRight className="w-6 h-6" />
+                  <span className="sr-only">Next photo</span>
+                </Button>
+              </>
+            )}
+          </Carousel>
+
+          {caption && (
+            <p className="p-4 text-center text-sm text-white/80 whitespace-pre-wrap">{caption}</p>
+          )}
+        </DialogPrimitive.Content>
+      </DialogPortal>
+    </Dialog>
+  );
+}
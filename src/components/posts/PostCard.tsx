@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import AvatarThumbnail from "@/components/AvatarThumbnail";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDeletePost } from "@/hooks/use-post-actions";
+import { displayName } from "@/lib/profiles";
+import { CommentThread } from "@/components/comments/CommentThread";
+import ThumbnailImage from "@/components/ThumbnailImage";
+import { LikeButton } from "./LikeButton";
+import { PostEditDialog } from "./PostEditDialog";
+import type { LightboxLinkState } from "./PhotoLightbox";
+import { MessageCircle, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import type { FeedPost } from "@/types/post";
+import type { Profile } from "@/types/profile";
+
+interface PostCardProps {
+  post: FeedPost;
+  author: Profile | null;
+  /** Click admins can delete anyone's post. */
+  canModerate?: boolean;
+  defaultShowComments?: boolean;
+}
+
+export function PostCard({
+  post,
+  author,
+  canModerate = false,
+  defaultShowComments = false,
+}: PostCardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const deletePost = useDeletePost(post.click_id);
+  const [showComments, setShowComments] = useState(defaultShowComments);
+  const [editing, setEditing] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const authorName = displayName(author);
+  const isAuthor = post.user_id === user?.id;
+  const isEdited = post.updated_at > post.created_at;
+
+  const handleDelete = () => {
+    deletePost.mutate(post, {
+      onSuccess: () => toast({ title: "Post deleted" }),
+      onError: (error) => {
+        console.error("Error:", error);
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to delete post",
+        });
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-3 space-y-0">
+        <Avatar>
+          <AvatarThumbnail src={author?.avatar_url} alt={authorName} />
+          <AvatarFallback>{authorName.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div className="flex-1">
+          <p className="font-medium leading-none">{authorName}</p>
+          <p className="text-sm text-muted-foreground">
+            {new Date(post.created_at).toLocaleString()}
+            {isEdited && " (edited)"}
+          </p>
+        </div>
+        {(isAuthor || canModerate) && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Post options"
+                disabled={deletePost.isPending}
+              >
+                <MoreHorizontal className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {isAuthor && (
+                <DropdownMenuItem onSelect={() => setEditing(true)}>
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Edit
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem
+                onSelect={() => setConfirmDelete(true)}
+                className="text-destructive"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </CardHeader>
+
+      {editing && <PostEditDialog post={post} onClose={() => setEditing(false)} />}
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this post?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {isAuthor
+                ? "Its photos, likes and comments will be deleted too. This can't be undone."
+                : `This removes ${authorName}'s post with its photos, likes and comments. This can't be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <CardContent className="space-y-4">
+        {post.images.length > 0 && (
+          <div className={post.images.length > 1 ? "grid grid-cols-2 gap-2" : ""}>
+            {post.images.map((image, i) => (
+              <Link
+                key={image.id}
+                to={`/clicks/${post.click_id}/posts/${post.id}?img=${i + 1}`}
+                state={{ fromFeed: true } satisfies LightboxLinkState}
+                className="block rounded-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                <ThumbnailImage
+                  src={image.signed?.url ?? image.image_url}
+                  thumbnailSrc={image.signed?.thumbnailUrl}
+                  alt={`Photo ${i + 1} of ${post.images.length}`}
+                  loading="lazy"
+                  className="w-full aspect-square object-cover rounded-md"
+                />
+              </Link>
+            ))}
+          </div>
+        )}
+        {post.content && <p className="whitespace-pre-wrap">{post.content}</p>}
+      </CardContent>
+
+      <CardFooter className="flex-col items-stretch gap-4">
+        <div className="flex gap-4 text-sm text-muted-foreground">
+          <LikeButton post={post} />
+          <button
+            type="button"
+            className="flex items-center gap-1 hover:text-foreground"
+            onClick={() => setShowComments(!showComments)}
+            aria-expanded={showComments}
+          >
+            <MessageCircle className="w-4 h-4" />
+            {post.comment_count}
+          </button>
+        </div>
+        {showComments && <CommentThread postId={post.id} clickId={post.click_id} />}
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,24 @@
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface PostCardSkeletonsProps {
+  count?: number;
+}
+
+export function PostCardSkeletons({ count = 2 }: PostCardSkeletonsProps) {
+  return (
+    <>
+      {Array.from({ length: count }).map((_, i) => (
+        <Card key={i}>
+          <CardHeader>
+            <Skeleton className="h-4 w-[200px]" />
+            <Skeleton className="h-3 w-[160px]" />
+          </CardHeader>
+          <CardContent>
+            <Skeleton className="h-64 w-full" />
+          </CardContent>
+        </Card>
+      ))}
+    </>
+  );
+}
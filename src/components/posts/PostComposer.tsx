@@ -0,0 +1,176 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { PostImageGrid } from "./PostImageGrid";
+import { usePostImageList } from "@/hooks/use-post-image-list";
+import { thumbnailPath } from "@/lib/image-processing";
+import { MAX_POST_IMAGES, removePostImageFiles, uploadPostImages } from "@/lib/post-images";
+import { ImagePlus } from "lucide-react";
+
+interface PostComposerProps {
+  clickId: string;
+  /** Set when the post answers a scheduled reminder prompt. */
+  reminderId?: string;
+  placeholder?: string;
+  onPosted?: () => void;
+}
+
+export function PostComposer({ clickId, reminderId, placeholder, onPosted }: PostComposerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [content, setContent] = useState("");
+  const {
+    images,
+    progress,
+    handleFilesSelected,
+    removeImage,
+    moveImage,
+    setImageProgress,
+    resetProgress,
+    clear,
+  } = usePostImageList();
+  const [submitting, setSubmitting] = useState(false);
+
+  const reset = () => {
+    clear();
+    setContent("");
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!user) return;
+
+    setSubmitting(true);
+    // Photos go up first, into the folder of the post they will belong to
+    const postId = crypto.randomUUID();
+    let uploadedPaths: string[] = [];
+    let postCreated = false;
+
+    try {
+      // The composer only ever holds new photos
+      const pending = images.flatMap((item) => (item.kind === "new" ? [item] : []));
+      const uploads = await uploadPostImages(
+        clickId,
+        postId,
+        pending.map((item) => item.file),
+        (index, percent) => setImageProgress(pending[index].id, percent)
+      );
+      uploadedPaths = uploads.flatMap(({ path }) => [path, thumbnailPath(path)]);
+
+      const { error: postError } = await supabase.from("posts").insert({
+        id: postId,
+        click_id: clickId,
+        user_id: user.id,
+        content: content.trim() || null,
+        is_reminder_post: !!reminderId,
+        reminder_id: reminderId ?? null,
+      });
+
+      if (postError) throw postError;
+      postCreated = true;
+
+      if (uploads.length > 0) {
+        const { error: imagesError } = await supabase
+          .from("post_images")
+          .insert(
+            uploads.map(({ url }, index) => ({
+              post_id: postId,
+              image_url: url,
+              order: index,
+            }))
+          );
+
+        if (imagesError) throw imagesError;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["posts", clickId] });
+      queryClient.invalidateQueries({ queryKey: ["clicks", user.id] });
+      if (reminderId) {
+        queryClient.invalidateQueries({ queryKey: ["reminder", clickId] });
+      }
+
+      toast({
+        title: "Success",
+        description: "Your post has been shared!",
+      });
+      reset();
+      onPosted?.();
+    } catch (error) {
+      console.error("Error:", error);
+
+      // Don't leave a half-written post behind
+      if (uploadedPaths.length > 0) {
+        await removePostImageFiles(uploadedPaths).catch(() => {});
+      }
+      if (postCreated) {
+        await supabase.from("posts").delete().eq("id", postId);
+      }
+      resetProgress();
+
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to share post",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canSubmit = !submitting && (images.length > 0 || content.trim().length > 0);
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder={placeholder ?? "Share something with the group..."}
+            disabled={submitting}
+          />
+
+          {images.length > 0 && (
+            <PostImageGrid
+              images={images}
+              progress={progress}
+              disabled={submitting}
+              onMove={moveImage}
+              onRemove={removeImage}
+            />
+          )}
+
+          <div className="flex items-center justify-between">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={submitting || images.length >= MAX_POST_IMAGES}
+            >
+              <ImagePlus className="w-4 h-4 mr-2" />
+              Add photos
+            </Button>
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFilesSelected}
+              className="hidden"
+              accept="image/*"
+              multiple
+            />
+            <Button type="submit" disabled={!canSubmit}>
+              {submitting ? "Posting..." : "Post"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
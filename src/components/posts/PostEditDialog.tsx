@@ -0,0 +1,128 @@
+import { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { PostImageGrid } from "./PostImageGrid";
+import { useEditPost } from "@/hooks/use-post-actions";
+import { usePostImageList } from "@/hooks/use-post-image-list";
+import { MAX_POST_IMAGES } from "@/lib/post-images";
+import { ImagePlus } from "lucide-react";
+import type { EditablePostImage, FeedPost } from "@/types/post";
+
+const editableImages = (post: FeedPost): EditablePostImage[] =>
+  post.images.map((image) => ({ kind: "existing", id: image.id, image }));
+
+interface PostEditDialogProps {
+  post: FeedPost;
+  onClose: () => void;
+}
+
+/**
+ * Mounted only while editing, so every edit starts from the saved post and a
+ * feed refetch in the background can't reset what the user is changing.
+ */
+export function PostEditDialog({ post, onClose }: PostEditDialogProps) {
+  const { toast } = useToast();
+  const editPost = useEditPost(post.click_id);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [content, setContent] = useState(post.content ?? "");
+  const {
+    images,
+    progress,
+    handleFilesSelected,
+    removeImage,
+    moveImage,
+    setImageProgress,
+    resetProgress,
+  } = usePostImageList(() => editableImages(post));
+  const saving = editPost.isPending;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    editPost.mutate(
+      { post, content, images, onProgress: setImageProgress },
+      {
+        onSuccess: () => {
+          toast({ title: "Success", description: "Your post has been updated." });
+          onClose();
+        },
+        onError: (error) => {
+          console.error("Error:", error);
+          resetProgress();
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to update post",
+          });
+        },
+      }
+    );
+  };
+
+  const canSubmit = !saving && (images.length > 0 || content.trim().length > 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Edit post</DialogTitle>
+          <DialogDescription>Change the caption, or add, remove and drag to reorder photos.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="Add a caption..."
+            disabled={saving}
+          />
+
+          {images.length > 0 && (
+            <PostImageGrid
+              images={images}
+              progress={progress}
+              disabled={saving}
+              onMove={moveImage}
+              onRemove={removeImage}
+            />
+          )}
+
+          <div className="flex items-center justify-between">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={saving || images.length >= MAX_POST_IMAGES}
+            >
+              <ImagePlus className="w-4 h-4 mr-2" />
+              Add photos
+            </Button>
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFilesSelected}
+              className="hidden"
+              accept="image/*"
+              multiple
+            />
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!canSubmit}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Progress } from "@/components/ui/progress";
+import ThumbnailImage from "@/components/ThumbnailImage";
+import { GripVertical, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { EditablePostImage } from "@/types/post";
+
+interface PostImageGridProps {
+  images: EditablePostImage[];
+  /** Upload progress by photo id, shown while `disabled`. */
+  progress?: Record<string, number>;
+  disabled?: boolean;
+  onMove: (fromId: string, toId: string) => void;
+  onRemove: (id: string) => void;
+}
+
+/** Photos picked for a post, which can be dragged to reorder or removed. */
+export function PostImageGrid({ images, progress, disabled, onMove, onRemove }: PostImageGridProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  return (
+    <ul className="grid grid-cols-3 gap-2">
+      {images.map((item) => (
+        <li
+          key={item.id}
+          draggable={!disabled}
+          onDragStart={() => setDraggedId(item.id)}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (draggedId) onMove(draggedId, item.id);
+          }}
+          onDragEnd={() => setDraggedId(null)}
+          className={cn(
+            "relative rounded-md overflow-hidden border bg-muted",
+            !disabled && "cursor-move",
+            draggedId === item.id && "opacity-50"
+          )}
+        >
+          {item.kind === "existing" ? (
+            <ThumbnailImage
+              src={item.image.signed?.url ?? item.image.image_url}
+              thumbnailSrc={item.image.signed?.thumbnailUrl}
+              alt=""
+              className="w-full aspect-square object-cover"
+            />
+          ) : (
+            <img
+              src={item.previewUrl}
+              alt={item.file.name}
+              className="w-full aspect-square object-cover"
+            />
+          )}
+          {!disabled && (
+            <>
+              <GripVertical className="absolute top-1 left-1 w-4 h-4 text-white drop-shadow" />
+              <button
+                type="button"
+                onClick={() => onRemove(item.id)}
+                className="absolute top-1 right-1 rounded-full bg-black/60 p-1 text-white"
+                aria-label={item.kind === "new" ? `Remove ${item.file.name}` : "Remove photo"}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </>
+          )}
+          {disabled && progress && item.kind === "new" && (
+            <Progress
+              value={progress[item.id] ?? 0}
+              className="absolute bottom-1 left-1 right-1 w-auto h-2"
+            />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+const DOUBLE_TAP_MS = 300;
+
+interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const IDENTITY: Transform = { scale: 1, x: 0, y: 0 };
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+const midpoint = (a: Point, b: Point) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+interface ZoomableImageProps {
+  src: string;
+  alt: string;
+  className?: string;
+  // Lets the carousel stop swiping while the user pans a zoomed photo.
+  // Pinches need nothing extra: Embla lets go of multi-touch drags itself.
+  onZoomChange?: (zoomed: boolean) => void;
+}
+
+/**
+ * An image that zooms with pinch, double-tap/double-click or ctrl+wheel
+ * (trackpad pinch), and pans while zoomed.
+ */
+export function ZoomableImage({ src, alt, className, onZoomChange }: ZoomableImageProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, Point>());
+  const lastTap = useRef(0);
+  const [transform, setTransform] = useState<Transform>(IDENTITY);
+  const zoomed = transform.scale > 1;
+
+  useEffect(() => {
+    onZoomChange?.(zoomed);
+  }, [zoomed, onZoomChange]);
+
+  // Keeps the photo covering the frame so it can't be dragged off-screen
+  const clamp = (next: Transform): Transform => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || next.scale <= 1) return IDENTITY;
+    const maxX = ((next.scale - 1) * rect.width) / 2;
+    const maxY = ((next.scale - 1) * rect.height) / 2;
+    return {
+      scale: next.scale,
+      x: Math.min(maxX, Math.max(-maxX, next.x)),
+      y: Math.min(maxY, Math.max(-maxY, next.y)),
+    };
+  };
+
+  // Scales around a viewport point, so what's under the fingers stays put
+  const zoomAt = (current: Transform, clientPoint: Point, scale: number): Transform => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return current;
+    const nextScale = Math.min(MAX_SCALE, Math.max(1, scale));
+    const px = clientPoint.x - (rect.left + rect.width / 2);
+    const py = clientPoint.y - (rect.top + rect.height / 2);
+    const ratio = nextScale / current.scale;
+    return clamp({
+      scale: nextScale,
+      x: px - (px - current.x) * ratio,
+      y: py - (py - current.y) * ratio,
+    });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (pointers.current.size === 1) {
+      const now = Date.now();
+      if (now - lastTap.current < DOUBLE_TAP_MS) {
+        lastTap.current = 0;
+        const point = { x: event.clientX, y: event.clientY };
+        setTransform((current) =>
+          current.scale > 1 ? IDENTITY : zoomAt(current, point, DOUBLE_TAP_SCALE)
+        );
+        return;
+      }
+      lastTap.current = now;
+    }
+
+    if (zoomed || pointers.current.size > 1) {
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(event.pointerId);
+    if (!previous) return;
+    const point = { x: event.clientX, y: event.clientY };
+
+    if (pointers.current.size === 2) {
+      const other = [...pointers.current.entries()].find(([id]) => id !== event.pointerId)![1];
+      const ratio = distance(point, other) / distance(previous, other);
+      setTransform((current) => zoomAt(current, midpoint(point, other), current.scale * ratio));
+    } else if (zoomed) {
+      setTransform((current) =>
+        clamp({ ...current, x: current.x + point.x - previous.x, y: current.y + point.y - previous.y })
+      );
+    }
+
+    pointers.current.set(event.pointerId, point);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(event.pointerId);
+  };
+
+  const handleWheel = (event: React.WheelEvent<HTMLDivElement>) => {
+    if (!event.ctrlKey) return;
+    const point = { x: event.clientX, y: event.clientY };
+    setTransform((current) => zoomAt(current, point, current.scale * Math.exp(-event.deltaY / 100)));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        "relative h-full w-full overflow-hidden touch-none select-none",
+        zoomed ? "cursor-grab" : "cursor-zoom-in",
+        className
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onWheel={handleWheel}
+    >
+      <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        className="h-full w-full object-contain transition-transform duration-75"
+        style={{
+          transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { PasswordStrengthMeter } from "@/components/auth/PasswordStrengthMeter";
+import { newPasswordSchema } from "@/lib/password";
+
+const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Enter your current password"),
+    newPassword: newPasswordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    path: ["confirmPassword"],
+    message: "Passwords don't match",
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    path: ["newPassword"],
+    message: "Choose a password different from your current one",
+  });
+
+type FormData = z.infer<typeof changePasswordSchema>;
+
+export function ChangePasswordForm() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const hasPassword = user?.app_metadata?.providers?.includes("email");
+
+  const onSubmit = async (data: FormData) => {
+    try {
+      // Checked on the server rather than by signing in again, which would
+      // replace the session and drop a two-factor session back to one factor
+      const { data: matches, error: verifyError } = await supabase.rpc("verify_password", {
+        current_password: data.currentPassword,
+      });
+      if (verifyError) throw verifyError;
+
+      if (!matches) {
+        form.setError("currentPassword", { message: "Current password is incorrect" });
+        return;
+      }
+
+      const { error } = await supabase.auth.updateUser({ password: data.newPassword });
+      if (error) throw error;
+
+      toast({
+        title: "Password changed",
+        description: "Use your new password next time you sign in.",
+      });
+      form.reset();
+    } catch (error) {
+      console.error("Error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change password",
+      });
+    }
+  };
+
+  if (!hasPassword) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You sign in with a social account, so there's no password to change.
+      </p>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="currentPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Current password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <PasswordStrengthMeter password={field.value} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm new password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            Change password
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
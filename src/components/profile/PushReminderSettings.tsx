@@ -0,0 +1,116 @@
+import { BellOff, BellRing } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  useDevicePushSubscription,
+  useRemoveDevicePush,
+  useReminderPushPreference,
+  useSetReminderPush,
+} from "@/hooks/use-push-reminders";
+import { isPushSupported } from "@/lib/push";
+
+export function PushReminderSettings() {
+  const { toast } = useToast();
+  const { data: enabled, isLoading } = useReminderPushPreference();
+  const { data: deviceSubscribed } = useDevicePushSubscription();
+  const setReminderPush = useSetReminderPush();
+  const removeDevicePush = useRemoveDevicePush();
+  const supported = isPushSupported();
+  const busy = setReminderPush.isPending || removeDevicePush.isPending;
+
+  const showError = (error: unknown) => {
+    console.error("Error:", error);
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error instanceof Error ? error.message : "Could not update push notifications",
+    });
+  };
+
+  const handleToggle = (checked: boolean) => {
+    setReminderPush.mutate(checked, {
+      onSuccess: () =>
+        toast({
+          title: checked ? "Reminders turned on" : "Reminders turned off",
+          description: checked
+            ? "You'll get a notification when your Clicks ask for a photo."
+            : "You won't get reminder notifications on any device.",
+        }),
+      onError: showError,
+    });
+  };
+
+  const handleRemoveDevice = () => {
+    removeDevicePush.mutate(undefined, {
+      onSuccess: (turnedOff) =>
+        toast({
+          title: "Turned off on this device",
+          description: turnedOff
+            ? "This was your last device, so reminders are now off."
+            : "Your other devices will still get reminders.",
+        }),
+      onError: showError,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="reminder-push">Click reminders</Label>
+          <p className="text-sm text-muted-foreground">
+            Get a push notification when one of your Clicks asks members to post.
+          </p>
+        </div>
+        <Switch
+          id="reminder-push"
+          checked={!!enabled}
+          disabled={isLoading || busy || (!enabled && !supported)}
+          onCheckedChange={handleToggle}
+        />
+      </div>
+
+      {!supported ? (
+        <p className="text-sm text-muted-foreground">
+          This browser doesn't support push notifications.
+        </p>
+      ) : (
+        enabled && (
+          <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+            <div className="flex items-center gap-2 text-sm">
+              {deviceSubscribed ? (
+                <BellRing className="w-4 h-4 text-primary" />
+              ) : (
+                <BellOff className="w-4 h-4 text-muted-foreground" />
+              )}
+              {deviceSubscribed
+                ? "This device gets reminders"
+                : "This device doesn't get reminders"}
+            </div>
+            {deviceSubscribed ? (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busy}
+                onClick={handleRemoveDevice}
+              >
+                Turn off here
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busy}
+                onClick={() => setReminderPush.mutate(true, { onError: showError })}
+              >
+                Turn on here
+              </Button>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
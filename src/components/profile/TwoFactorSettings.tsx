@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ShieldCheck, Trash2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/use-toast";
+
+const CODE_LENGTH = 6;
+const DEFAULT_FACTOR_NAME = "Authenticator app";
+
+// Supabase rejects a factor whose name another of the user's factors has
+function nextFactorName(taken: string[]) {
+  let name = DEFAULT_FACTOR_NAME;
+  for (let n = 2; taken.includes(name); n++) name = `${DEFAULT_FACTOR_NAME} ${n}`;
+  return name;
+}
+
+interface PendingEnrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+export function TwoFactorSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [friendlyName, setFriendlyName] = useState("");
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<PendingEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // The session's user carries its factors, and both verifying and the
+  // refresh after removing one replace the session, so this stays current.
+  const factors = (user?.factors ?? []).filter((factor) => factor.status === "verified");
+  const takenNames = factors.map((factor) => factor.friendly_name ?? "");
+  const suggestedName = nextFactorName(takenNames);
+
+  const startEnrollment = async () => {
+    const name = friendlyName.trim() || suggestedName;
+    if (takenNames.includes(name)) {
+      setNameError("You already have an authenticator with this name");
+      return;
+    }
+    setNameError(null);
+    await enroll(name);
+  };
+
+  const enroll = async (name: string) => {
+    setBusy(true);
+    try {
+      // An abandoned setup leaves an unverified factor behind, and its name
+      // would clash with the new one
+      const { data: existing, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+      for (const factor of existing.all.filter((f) => f.status === "unverified")) {
+        await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: "totp",
+        friendlyName: name,
+      });
+      if (error) throw error;
+
+      setEnrollment({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+      setCode("");
+      setCodeError(null);
+    } catch (error) {
+      console.error("Error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start two-factor setup",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const cancelEnrollment = async () => {
+    if (!enrollment) return;
+    setEnrollment(null);
+    await supabase.auth.mfa.unenroll({ factorId: enrollment.factorId });
+  };
+
+  const verifyEnrollment = async (token: string) => {
+    if (!enrollment) return;
+    setBusy(true);
+    const { error } = await supabase.auth.mfa.challengeAndVerify({
+      factorId: enrollment.factorId,
+      code: token,
+    });
+    setBusy(false);
+
+    if (error) {
+      setCode("");
+      setCodeError("That code didn't work. Codes change every 30 seconds, so try the latest one.");
+      return;
+    }
+
+    setEnrollment(null);
+    setFriendlyName("");
+    toast({
+      title: "Two-factor authentication on",
+      description: "You'll be asked for a code from your app each time you sign in.",
+    });
+  };
+
+  const removeFactor = async (factorId: string) => {
+    try {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId });
+      if (error) throw error;
+
+      // The current session still lists the factor until it's refreshed
+      await supabase.auth.refreshSession();
+      toast({ title: "Authenticator removed" });
+    } catch (error) {
+      console.error("Error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove authenticator",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Require a code from an authenticator app, like 1Password or Google Authenticator, when you
+        sign in. Recommended if you run a large Click.
+      </p>
+
+      {factors.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {factors.map((factor) => (
+            <li key={factor.id} className="flex items-center gap-3 p-3">
+              <ShieldCheck className="h-5 w-5 text-primary shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{factor.friendly_name || DEFAULT_FACTOR_NAME}</p>
+                <p className="text-xs text-muted-foreground">
+                  Added {format(new Date(factor.created_at), "MMM d, yyyy")}
+                </p>
+              </div>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="icon" aria-label="Remove authenticator">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Remove this authenticator?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {factors.length === 1
+                        ? "Two-factor authentication will be turned off for your account."
+                        : "You won't be able to sign in with codes from this app anymore."}
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => removeFactor(factor.id)}>
+                      Remove
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {enrollment ? (
+        <div className="space-y-4 rounded-md border p-4">
+          <p className="text-sm">
+            Scan this QR code with your authenticator app, then enter the {CODE_LENGTH}-digit code
+            it shows.
+          </p>
+          <img
+            src={enrollment.qrCode}
+            alt="QR code for your authenticator app"
+            className="mx-auto h-44 w-44 rounded bg-white p-2"
+          />
+          <div className="space-y-1 text-center">
+            <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+            <code className="block break-all rounded bg-muted px-2 py-1 text-sm select-all">
+              {enrollment.secret}
+            </code>
+          </div>
+
+          <div className="flex justify-center">
+            <InputOTP
+              maxLength={CODE_LENGTH}
+              value={code}
+              onChange={(value) => {
+                setCode(value);
+                setCodeError(null);
+              }}
+              onComplete={verifyEnrollment}
+              disabled={busy}
+            >
+              <InputOTPGroup>
+                {Array.from({ length: CODE_LENGTH }).map((_, i) => (
+                  <InputOTPSlot key={i} index={i} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+          {codeError && <p className="text-sm text-destructive text-center">{codeError}</p>}
+
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={cancelEnrollment} disabled={busy}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="mfa-friendly-name">Authenticator name</Label>
+            <Input
+              id="mfa-friendly-name"
+              value={friendlyName}
+              placeholder={suggestedName}
+              onChange={(e) => {
+                setFriendlyName(e.target.value);
+                setNameError(null);
+              }}
+              maxLength={50}
+            />
+            {nameError && <p className="text-sm text-destructive">{nameError}</p>}
+          </div>
+          <Button onClick={startEnrollment} disabled={busy}>
+            {factors.length > 0 ? "Add another" : "Set up"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { PostComposer } from "@/components/posts/PostComposer";
+import { useCurrentReminder } from "@/hooks/use-reminders";
+import { BellRing, CheckCircle2 } from "lucide-react";
+import type { Click } from "@/types/click";
+
+interface ReminderBannerProps {
+  click: Click;
+}
+
+export function ReminderBanner({ click }: ReminderBannerProps) {
+  const { data } = useCurrentReminder(click);
+  const [responding, setResponding] = useState(false);
+
+  if (!data) return null;
+  const { reminder, responded } = data;
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        {responded ? <CheckCircle2 className="h-4 w-4" /> : <BellRing className="h-4 w-4" />}
+        <AlertTitle>Today's prompt</AlertTitle>
+        <AlertDescription className="flex items-center justify-between gap-4">
+          <span className="text-base">{reminder.prompt}</span>
+          {responded ? (
+            <span className="text-sm text-muted-foreground shrink-0">You've responded</span>
+          ) : (
+            !responding && (
+              <Button size="sm" className="shrink-0" onClick={() => setResponding(true)}>
+                Respond
+              </Button>
+            )
+          )}
+        </AlertDescription>
+      </Alert>
+
+      {responding && !responded && (
+        <PostComposer
+          clickId={click.id}
+          reminderId={reminder.id}
+          placeholder={reminder.prompt}
+          onPosted={() => setResponding(false)}
+        />
+      )}
+    </div>
+  );
+}
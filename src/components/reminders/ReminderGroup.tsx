@@ -0,0 +1,42 @@
+import { PostCard } from "@/components/posts/PostCard";
+import { BellRing } from "lucide-react";
+import type { FeedPost } from "@/types/post";
+import type { Profile } from "@/types/profile";
+import type { Reminder } from "@/types/reminder";
+
+interface ReminderGroupProps {
+  reminder: Reminder;
+  posts: FeedPost[];
+  profilesById: Map<string, Profile | null>;
+  canModerate?: boolean;
+}
+
+export function ReminderGroup({
+  reminder,
+  posts,
+  profilesById,
+  canModerate = false,
+}: ReminderGroupProps) {
+  return (
+    <section className="space-y-4 rounded-xl border bg-muted/40 p-4">
+      <header className="flex items-start gap-2">
+        <BellRing className="w-4 h-4 mt-1 text-muted-foreground" />
+        <div>
+          <p className="font-medium">{reminder.prompt}</p>
+          <p className="text-sm text-muted-foreground">
+            {new Date(reminder.scheduled_for).toLocaleDateString()} ·{" "}
+            {posts.length} {posts.length === 1 ? "response" : "responses"}
+          </p>
+        </div>
+      </header>
+      {posts.map((post) => (
+        <PostCard
+          key={post.id}
+          post={post}
+          author={profilesById.get(post.user_id) ?? null}
+          canModerate={canModerate}
+        />
+      ))}
+    </section>
+  );
+}
@@ -1,36 +1,57 @@
 
-import { createContext, useContext, useEffect, useState } from "react";
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
-import type { User } from "@supabase/supabase-js";
+import { clearReturnTo } from "@/lib/return-to";
+import { getAssurance, type Assurance } from "@/lib/mfa";
+import type { Session, User } from "@supabase/supabase-js";
 
 type AuthContextType = {
   user: User | null;
   loading: boolean;
+  assurance: Assurance;
+  // True while the session came from a password reset link
+  isPasswordRecovery: boolean;
+  completePasswordRecovery: () => void;
 };
 
-const AuthContext = createContext<AuthContextType>({ user: null, loading: true });
+// Read before supabase-js clears the hash, since the PASSWORD_RECOVERY event
+// can fire before our listener is attached.
+const openedFromRecoveryLink = window.location.hash.includes("type=recovery");
+
+const AuthContext = createContext<AuthContextType>({
+  user: null,
+  loading: true,
+  assurance: { current: null, next: null },
+  isPasswordRecovery: false,
+  completePasswordRecovery: () => {},
+});
 
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [isPasswordRecovery, setIsPasswordRecovery] = useState(openedFromRecoveryLink);
   const navigate = useNavigate();
 
   useEffect(() => {
     // Check active sessions and sets the user
     supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
+      setSession(session);
       setLoading(false);
     });
 
-    // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
-      setUser(session?.user ?? null);
+    // Listen for auth changes. Landing on a page after sign-in is handled by
+    // Index, so token refreshes and profile updates never move the user.
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setSession(session);
       setLoading(false);
-      
-      if (session?.user) {
-        navigate('/dashboard');
-      } else {
+
+      if (event === "PASSWORD_RECOVERY") {
+        setIsPasswordRecovery(true);
+        navigate('/reset-password');
+      } else if (event === "SIGNED_OUT") {
+        clearReturnTo();
+        setIsPasswordRecovery(false);
         navigate('/');
       }
     });
@@ -38,8 +59,14 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     return () => subscription.unsubscribe();
   }, [navigate]);
 
+  const completePasswordRecovery = () => setIsPasswordRecovery(false);
+  const user = session?.user ?? null;
+  const assurance = useMemo(() => getAssurance(session), [session]);
+
   return (
-    <AuthContext.Provider value={{ user, loading }}>
+    <AuthContext.Provider
+      value={{ user, loading, assurance, isPasswordRecovery, completePasswordRecovery }}
+    >
       {!loading && children}
     </AuthContext.Provider>
   );
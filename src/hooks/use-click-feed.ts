@@ -0,0 +1,80 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { signPostImages } from "@/lib/post-images";
+import type { FeedPost, Post, PostImage } from "@/types/post";
+import type { Reminder } from "@/types/reminder";
+
+export const FEED_PAGE_SIZE = 10;
+
+export const FEED_POST_SELECT =
+  "*, post_images(*), likes(count), my_likes:likes(user_id), comments(count), reminder:reminders(*)";
+
+export type PostRow = Post & {
+  post_images: PostImage[];
+  likes: { count: number }[];
+  my_likes: { user_id: string }[];
+  comments: { count: number }[];
+  reminder: Reminder | null;
+};
+
+/** Turns rows into feed posts, signing all of their photos in one request. */
+export async function toFeedPosts(rows: PostRow[]): Promise<FeedPost[]> {
+  const signed = await signPostImages(
+    rows.flatMap((row) => row.post_images.map((image) => image.image_url))
+  );
+
+  return rows.map(({ post_images, likes, my_likes, comments, ...post }) => ({
+    ...post,
+    images: [...post_images]
+      .sort((a, b) => a.order - b.order)
+      .map((image) => ({ ...image, signed: signed.get(image.image_url) ?? null })),
+    like_count: likes[0]?.count ?? 0,
+    liked_by_me: my_likes.length > 0,
+    comment_count: comments[0]?.count ?? 0,
+  }));
+}
+
+/** The last post already loaded; the next page starts just after it. */
+export interface FeedCursor {
+  created_at: string;
+  id: string;
+}
+
+export function useClickFeed(clickId: string | undefined) {
+  const { user } = useAuth();
+
+  return useInfiniteQuery({
+    queryKey: ["posts", clickId],
+    queryFn: async ({ pageParam }) => {
+      let query = supabase
+        .from("posts")
+        .select(FEED_POST_SELECT)
+        .eq("click_id", clickId)
+        .eq("my_likes.user_id", user?.id);
+
+      // Keyset pagination, so posts added while scrolling don't shift later
+      // pages. The id breaks ties between posts created in the same instant.
+      if (pageParam) {
+        query = query.or(
+          `created_at.lt."${pageParam.created_at}",and(created_at.eq."${pageParam.created_at}",id.lt.${pageParam.id})`
+        );
+      }
+
+      const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(FEED_PAGE_SIZE);
+
+      if (error) throw error;
+      return toFeedPosts(data as unknown as PostRow[]);
+    },
+    initialPageParam: null as FeedCursor | null,
+    getNextPageParam: (lastPage): FeedCursor | undefined => {
+      if (lastPage.length < FEED_PAGE_SIZE) return undefined;
+      const last = lastPage[lastPage.length - 1];
+      return { created_at: last.created_at, id: last.id };
+    },
+    enabled: !!clickId && !!user,
+  });
+}
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQueryClient, type InfiniteData, type QueryClient } from "@tanstack/react-query";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { signPostImages } from "@/lib/post-images";
+import type { Tables } from "@/integrations/supabase/types";
+import type { FeedPost, PostImage } from "@/types/post";
+
+type PostRow = Tables<"posts">;
+type LikeRow = Tables<"likes">;
+type CommentRow = Tables<"comments">;
+
+function updateFeedPosts(
+  queryClient: QueryClient,
+  clickId: string,
+  update: (posts: FeedPost[]) => FeedPost[]
+) {
+  queryClient.setQueryData<InfiniteData<FeedPost[]>>(["posts", clickId], (feed) =>
+    feed && { ...feed, pages: feed.pages.map(update) }
+  );
+}
+
+function patchFeedPost(
+  queryClient: QueryClient,
+  clickId: string,
+  postId: string,
+  patch: (post: FeedPost) => Partial<FeedPost>
+) {
+  updateFeedPosts(queryClient, clickId, (posts) =>
+    posts.map((post) => (post.id === postId ? { ...post, ...patch(post) } : post))
+  );
+}
+
+/**
+ * Keeps a Click's feed live while the page is open. Edits, deletions, likes
+ * and comments are merged into the cached feed; new posts from others are
+ * only counted, so the feed doesn't jump under the reader.
+ */
+export function useClickRealtime(clickId: string | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [newPostCount, setNewPostCount] = useState(0);
+
+  useEffect(() => {
+    if (!clickId || !user) return;
+    setNewPostCount(0);
+
+    const filter = `click_id=eq.${clickId}`;
+
+    // Edits update the post row after its photos, so these are final
+    const refreshImages = async (postId: string) => {
+      const { data, error } = await supabase
+        .from("post_images")
+        .select("*")
+        .eq("post_id", postId)
+        .order("order");
+
+      if (error) {
+        console.error("Error:", error);
+        return;
+      }
+      try {
+        const signed = await signPostImages(data.map((image) => image.image_url));
+        const images = (data as PostImage[]).map((image) => ({
+          ...image,
+          signed: signed.get(image.image_url) ?? null,
+        }));
+        patchFeedPost(queryClient, clickId, postId, () => ({ images }));
+      } catch (error) {
+        console.error("Error:", error);
+      }
+    };
+
+    const handlePost = (payload: RealtimePostgresChangesPayload<PostRow>) => {
+      if (payload.eventType === "INSERT") {
+        // Our own posts are added by the composer's refetch
+        if (payload.new.user_id !== user.id) setNewPostCount((count) => count + 1);
+      } else if (payload.eventType === "UPDATE") {
+        patchFeedPost(queryClient, clickId, payload.new.id, () => ({
+          content: payload.new.content,
+          updated_at: payload.new.updated_at,
+        }));
+        // Photos may have changed too, which this row doesn't carry
+        refreshImages(payload.new.id);
+        queryClient.invalidateQueries({ queryKey: ["post", payload.new.id] });
+      } else if (payload.eventType === "DELETE") {
+        updateFeedPosts(queryClient, clickId, (posts) =>
+          posts.filter((post) => post.id !== payload.old.id)
+        );
+        queryClient.removeQueries({ queryKey: ["post", payload.old.id] });
+      }
+    };
+
+    const adjustCount = (
+      key: "like_count" | "comment_count",
+      postId: string,
+      delta: number
+    ) =>
+      patchFeedPost(queryClient, clickId, postId, (post) => ({
+        [key]: Math.max(0, post[key] + delta),
+      }));
+
+    // With RLS, deleted rows arrive with little more than their primary key.
+    // When it doesn't say which post lost a like or comment, refetch the feed.
+    const refetchFeed = () => {
+      queryClient.invalidateQueries({ queryKey: ["posts", clickId] });
+    };
+
+    const handleLike = (payload: RealtimePostgresChangesPayload<LikeRow>) => {
+      const row = payload.eventType === "DELETE" ? payload.old : payload.new;
+      if (!row.post_id) return refetchFeed();
+      queryClient.invalidateQueries({ queryKey: ["likes", row.post_id] });
+
+      // Our own likes were already applied optimistically
+      if (row.user_id === user.id) return;
+      const delta = payload.eventType === "INSERT" ? 1 : payload.eventType === "DELETE" ? -1 : 0;
+      adjustCount("like_count", row.post_id, delta);
+    };
+
+    /** A comment from any thread already loaded, to fill in a deleted row. */
+    const cachedComment = (commentId: string) =>
+      queryClient
+        .getQueriesData<{ comments: CommentRow[] }>({ queryKey: ["comments"] })
+        .flatMap(([, data]) => data?.comments ?? [])
+        .find((comment) => comment.id === commentId);
+
+    const handleComment = (payload: RealtimePostgresChangesPayload<CommentRow>) => {
+      if (payload.eventType === "DELETE") {
+        const row = payload.old.post_id ? payload.old : cachedComment(payload.old.id);
+        if (!row?.post_id) return refetchFeed();
+        queryClient.invalidateQueries({ queryKey: ["comments", row.post_id] });
+        // Our own deletions refetch the feed when they're made
+        if (row.user_id !== user.id) adjustCount("comment_count", row.post_id, -1);
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["comments", payload.new.post_id] });
+      // Our own comments already refetch the feed when they're saved
+      if (payload.new.user_id === user.id || payload.eventType !== "INSERT") return;
+      adjustCount("comment_count", payload.new.post_id, 1);
+    };
+
+    // Delete events ignore filters, so deletions from other Clicks arrive too.
+    // Post deletions match nothing in this feed and change nothing.
+    const channel = supabase
+      .channel(`click:${clickId}`)
+      .on<PostRow>("postgres_changes", { event: "*", schema: "public", table: "posts", filter }, handlePost)
+      .on<LikeRow>("postgres_changes", { event: "*", schema: "public", table: "likes", filter }, handleLike)
+      .on<CommentRow>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "comments", filter },
+        handleComment
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [clickId, user, queryClient]);
+
+  /** Drops the loaded pages and refetches from the newest post. */
+  const showNewPosts = useCallback(async () => {
+    setNewPostCount(0);
+    await queryClient.resetQueries({ queryKey: ["posts", clickId] });
+  }, [queryClient, clickId]);
+
+  return { newPostCount, showNewPosts };
+}
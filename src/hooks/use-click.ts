@@ -0,0 +1,44 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchProfiles } from "@/lib/profiles";
+import type { Click, ClickMember, ClickMemberWithProfile } from "@/types/click";
+
+export function useClick(clickId: string | undefined) {
+  return useQuery({
+    queryKey: ["click", clickId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("clicks")
+        .select("*")
+        .eq("id", clickId)
+        .single();
+
+      if (error) throw error;
+      return data as Click;
+    },
+    enabled: !!clickId,
+  });
+}
+
+export function useClickMembers(clickId: string | undefined) {
+  return useQuery({
+    queryKey: ["click-members", clickId],
+    queryFn: async () => {
+      const { data: members, error } = await supabase
+        .from("click_members")
+        .select("*")
+        .eq("click_id", clickId)
+        .order("joined_at", { ascending: true });
+
+      if (error) throw error;
+
+      const profilesById = await fetchProfiles(members.map((member) => member.user_id));
+
+      return members.map((member) => ({
+        ...(member as ClickMember),
+        profile: profilesById.get(member.user_id) ?? null,
+      })) as ClickMemberWithProfile[];
+    },
+    enabled: !!clickId,
+  });
+}
@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchProfiles } from "@/lib/profiles";
+import type { Comment } from "@/types/comment";
+
+export function useComments(postId: string, enabled = true) {
+  return useQuery({
+    queryKey: ["comments", postId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("comments")
+        .select("*")
+        .eq("post_id", postId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      const comments = data as Comment[];
+      const profilesById = await fetchProfiles(comments.map((comment) => comment.user_id));
+
+      return { comments, profilesById };
+    },
+    enabled,
+  });
+}
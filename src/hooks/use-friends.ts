@@ -0,0 +1,100 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { getRelationship, planFriendAction } from "@/lib/friends";
+import { fetchProfiles } from "@/lib/profiles";
+import type { FriendAction, Friendship, FriendshipWithProfile } from "@/types/friend";
+import type { Profile } from "@/types/profile";
+
+export function useFriendships() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["friends", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("friends")
+        .select("*")
+        .or(`user_id.eq.${user?.id},friend_id.eq.${user?.id}`)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      const friendships = data as Friendship[];
+      const otherId = (friendship: Friendship) =>
+        friendship.user_id === user?.id ? friendship.friend_id : friendship.user_id;
+      const profilesById = await fetchProfiles(friendships.map(otherId));
+
+      return friendships.map((friendship) => ({
+        ...friendship,
+        other_id: otherId(friendship),
+        relationship: getRelationship(friendship, user!.id),
+        profile: profilesById.get(otherId(friendship)) ?? null,
+      })) as FriendshipWithProfile[];
+    },
+    enabled: !!user,
+  });
+}
+
+export function useProfileSearch(term: string) {
+  const { user } = useAuth();
+  const trimmed = term.trim();
+
+  return useQuery({
+    queryKey: ["profile-search", trimmed],
+    queryFn: async () => {
+      // Escape LIKE wildcards so "_" and "%" in usernames match literally
+      const pattern = trimmed.replace(/[\\%_]/g, (char) => `\\${char}`);
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, username, full_name, avatar_url")
+        .ilike("username", `${pattern}%`)
+        .neq("id", user?.id)
+        .order("username")
+        .limit(20);
+
+      if (error) throw error;
+      return data as Profile[];
+    },
+    enabled: !!user && trimmed.length >= 2,
+  });
+}
+
+export function useFriendAction() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      otherId,
+      action,
+      friendship,
+    }: {
+      otherId: string;
+      action: FriendAction;
+      friendship: Friendship | null | undefined;
+    }) => {
+      const write = planFriendAction(friendship, action, user!.id, otherId);
+
+      const { error } =
+        write.kind === "insert"
+          ? await supabase.from("friends").insert(write.row)
+          : write.kind === "update"
+            ? await supabase
+                .from("friends")
+                .update(write.row)
+                .eq("user_id", write.match.user_id)
+                .eq("friend_id", write.match.friend_id)
+            : await supabase
+                .from("friends")
+                .delete()
+                .eq("user_id", write.match.user_id)
+                .eq("friend_id", write.match.friend_id);
+
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["friends", user?.id] });
+    },
+  });
+}
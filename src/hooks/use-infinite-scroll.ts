@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useRef } from "react";
+
+interface InfiniteScrollOptions {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => unknown;
+  // Start loading a little before the sentinel scrolls into view
+  rootMargin?: string;
+}
+
+/**
+ * Returns a ref for a sentinel element placed after a list; the next page is
+ * fetched whenever it comes near the viewport.
+ */
+export function useInfiniteScroll({
+  hasNextPage,
+  isFetchingNextPage,
+  fetchNextPage,
+  rootMargin = "600px",
+}: InfiniteScrollOptions) {
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const nodeRef = useRef<Element | null>(null);
+  const latest = useRef({ hasNextPage, isFetchingNextPage, fetchNextPage });
+  latest.current = { hasNextPage, isFetchingNextPage, fetchNextPage };
+
+  const sentinelRef = useCallback(
+    (node: Element | null) => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+      nodeRef.current = node;
+      if (!node) return;
+
+      observerRef.current = new IntersectionObserver(
+        ([entry]) => {
+          const { hasNextPage, isFetchingNextPage, fetchNextPage } = latest.current;
+          if (entry.isIntersecting && hasNextPage && !isFetchingNextPage) fetchNextPage();
+        },
+        { rootMargin }
+      );
+      observerRef.current.observe(node);
+    },
+    [rootMargin]
+  );
+
+  // The observer only reports changes, so a sentinel still in view once a page
+  // has loaded (a tall screen, short posts) would never ask for the next one.
+  // Observing it afresh reports where it is now.
+  const canFetch = hasNextPage && !isFetchingNextPage;
+  const couldFetch = useRef(canFetch);
+  useEffect(() => {
+    const becameReady = canFetch && !couldFetch.current;
+    couldFetch.current = canFetch;
+    if (!becameReady || !observerRef.current || !nodeRef.current) return;
+
+    observerRef.current.unobserve(nodeRef.current);
+    observerRef.current.observe(nodeRef.current);
+  }, [canFetch]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  return sentinelRef;
+}
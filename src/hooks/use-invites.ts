@@ -0,0 +1,95 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import type { ClickInvite, CreateInviteInput, InvitePreview } from "@/types/invite";
+
+export function useClickInvites(clickId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: ["click-invites", clickId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("click_invites")
+        .select("*")
+        .eq("click_id", clickId)
+        .is("revoked_at", null)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data as ClickInvite[];
+    },
+    enabled: !!clickId && enabled,
+  });
+}
+
+export function useCreateInvite(clickId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateInviteInput) => {
+      const { data, error } = await supabase
+        .from("click_invites")
+        .insert({ ...input, click_id: clickId, created_by: user!.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ClickInvite;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["click-invites", clickId] });
+    },
+  });
+}
+
+export function useRevokeInvite(clickId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (inviteId: string) => {
+      const { error } = await supabase
+        .from("click_invites")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", inviteId);
+
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["click-invites", clickId] });
+    },
+  });
+}
+
+export function useInvitePreview(code: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    // Membership in the preview depends on who's asking
+    queryKey: ["invite-preview", code, user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_invite_preview", { invite_code: code! });
+
+      if (error) throw error;
+      return (data[0] as InvitePreview | undefined) ?? null;
+    },
+    enabled: !!code,
+  });
+}
+
+export function useAcceptInvite() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const { data: clickId, error } = await supabase.rpc("accept_invite", { invite_code: code });
+
+      if (error) throw error;
+      return clickId;
+    },
+    onSuccess: (clickId) => {
+      queryClient.invalidateQueries({ queryKey: ["clicks", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["click-members", clickId] });
+    },
+  });
+}
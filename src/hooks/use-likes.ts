@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchProfiles } from "@/lib/profiles";
+import type { FeedPost } from "@/types/post";
+
+export function useLikedBy(postId: string, enabled = true) {
+  return useQuery({
+    queryKey: ["likes", postId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("likes")
+        .select("user_id, created_at")
+        .eq("post_id", postId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      const profilesById = await fetchProfiles(data.map((like) => like.user_id));
+      return data.map((like) => ({
+        user_id: like.user_id,
+        profile: profilesById.get(like.user_id) ?? null,
+      }));
+    },
+    enabled,
+  });
+}
+
+/**
+ * Likes or unlikes a post, updating the feed cache immediately and rolling
+ * back if the request fails.
+ */
+export function useToggleLike(clickId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const feedKey = ["posts", clickId];
+
+  return useMutation({
+    mutationFn: async ({ postId, liked }: { postId: string; liked: boolean }) => {
+      const { error } = liked
+        ? await supabase
+            .from("likes")
+            .insert({ post_id: postId, user_id: user?.id })
+        : await supabase
+            .from("likes")
+            .delete()
+            .eq("post_id", postId)
+            .eq("user_id", user?.id);
+
+      if (error) throw error;
+    },
+    onMutate: async ({ postId, liked }) => {
+      await queryClient.cancelQueries({ queryKey: feedKey });
+      const previous = queryClient.getQueryData<InfiniteData<FeedPost[]>>(feedKey);
+
+      queryClient.setQueryData<InfiniteData<FeedPost[]>>(feedKey, (feed) =>
+        feed && {
+          ...feed,
+          pages: feed.pages.map((page) =>
+            page.map((post) =>
+              post.id === postId && post.liked_by_me !== liked
+                ? {
+                    ...post,
+                    liked_by_me: liked,
+                    like_count: post.like_count + (liked ? 1 : -1),
+                  }
+                : post
+            )
+          ),
+        }
+      );
+
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(feedKey, context.previous);
+      }
+    },
+    onSettled: (_data, _error, { postId }) => {
+      queryClient.invalidateQueries({ queryKey: ["likes", postId] });
+    },
+  });
+}
@@ -0,0 +1,54 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import type { MemberAction } from "@/types/click";
+
+export function useMemberAction(clickId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ memberId, action }: { memberId: string; action: MemberAction }) => {
+      const { error } =
+        action === "promote" || action === "demote"
+          ? await supabase.rpc("set_member_role", {
+              target_click_id: clickId,
+              member_id: memberId,
+              new_role: action === "promote" ? "admin" : "member",
+            })
+          : action === "remove"
+            ? await supabase.rpc("remove_member", {
+                target_click_id: clickId,
+                member_id: memberId,
+              })
+            : await supabase.rpc("transfer_click_ownership", {
+                target_click_id: clickId,
+                new_owner_id: memberId,
+              });
+
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["click-members", clickId] });
+      queryClient.invalidateQueries({ queryKey: ["click", clickId] });
+      queryClient.invalidateQueries({ queryKey: ["clicks", user?.id] });
+    },
+  });
+}
+
+export function useLeaveClick(clickId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("leave_click", { target_click_id: clickId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["clicks", user?.id] });
+      queryClient.removeQueries({ queryKey: ["click", clickId] });
+      queryClient.removeQueries({ queryKey: ["click-members", clickId] });
+    },
+  });
+}
@@ -0,0 +1,73 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { signPostImages } from "@/lib/post-images";
+import type { Click, ClickMember, DashboardClick } from "@/types/click";
+
+// Clicks without a chosen cover use their newest photo. Only a handful of
+// recent posts are fetched per Click for that, since the newest may be text-only.
+const COVER_CANDIDATE_POSTS = 5;
+
+type MembershipRow = {
+  role: ClickMember["role"] | null;
+  clicks: Click & {
+    click_members: { count: number }[];
+    posts: { created_at: string; post_images: { image_url: string; order: number }[] }[];
+  };
+};
+
+function toDashboardClick({ role, clicks }: MembershipRow): Omit<DashboardClick, "cover"> {
+  const { click_members, posts, ...click } = clicks;
+  const coverPost = posts.find((post) => post.post_images.length > 0);
+  const coverImage = coverPost?.post_images.reduce((first, image) =>
+    image.order < first.order ? image : first
+  );
+
+  return {
+    ...click,
+    role: role ?? "member",
+    member_count: click_members[0]?.count ?? 0,
+    cover_image_url: click.cover_image_url ?? coverImage?.image_url ?? null,
+  };
+}
+
+/**
+ * Every Click the signed-in user belongs to, newest first.
+ */
+export function useMyClicks() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["clicks", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("click_members")
+        .select(`
+          role,
+          clicks (
+            *,
+            click_members ( count ),
+            posts ( created_at, post_images ( image_url, order ) )
+          )
+        `)
+        .eq("user_id", user?.id)
+        .order("created_at", { referencedTable: "clicks.posts", ascending: false })
+        .limit(COVER_CANDIDATE_POSTS, { referencedTable: "clicks.posts" });
+
+      if (error) throw error;
+      const clicks = (data as unknown as MembershipRow[])
+        .filter((row) => row.clicks)
+        .map(toDashboardClick)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+      const covers = await signPostImages(
+        clicks.flatMap((click) => (click.cover_image_url ? [click.cover_image_url] : []))
+      );
+      return clicks.map((click): DashboardClick => ({
+        ...click,
+        cover: (click.cover_image_url && covers.get(click.cover_image_url)) || null,
+      }));
+    },
+    enabled: !!user,
+  });
+}
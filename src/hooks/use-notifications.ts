@@ -0,0 +1,83 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchProfiles } from "@/lib/profiles";
+import type { Notification, NotificationWithActor } from "@/types/notification";
+
+const NOTIFICATION_LIMIT = 50;
+
+type NotificationRow = Notification & { click: { name: string } | null };
+
+/**
+ * The signed-in user's most recent notifications, kept fresh over realtime
+ * while mounted.
+ */
+export function useNotifications() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "notifications", filter: `user_id=eq.${user.id}` },
+        () => queryClient.invalidateQueries({ queryKey: ["notifications", user.id] })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+
+  return useQuery({
+    queryKey: ["notifications", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("*, click:clicks(name)")
+        .eq("user_id", user?.id)
+        .order("created_at", { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+
+      const rows = data as unknown as NotificationRow[];
+      const profilesById = await fetchProfiles(rows.map((row) => row.actor_id));
+
+      return rows.map(({ click, ...notification }) => ({
+        ...notification,
+        actor: profilesById.get(notification.actor_id) ?? null,
+        click_name: click?.name ?? null,
+      })) as NotificationWithActor[];
+    },
+    enabled: !!user,
+  });
+}
+
+/** Marks the given notifications read, or all of them when `ids` is omitted. */
+export function useMarkNotificationsRead() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids?: string[]) => {
+      let query = supabase
+        .from("notifications")
+        .update({ read_at: new Date().toISOString() })
+        .eq("user_id", user?.id)
+        .is("read_at", null);
+      if (ids) query = query.in("id", ids);
+
+      const { error } = await query;
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications", user?.id] });
+    },
+  });
+}
@@ -0,0 +1,140 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { thumbnailPath } from "@/lib/image-processing";
+import {
+  postImagePaths,
+  removePostFolder,
+  removePostImageFiles,
+  uploadPostImages,
+} from "@/lib/post-images";
+import type { EditablePostImage, FeedPost } from "@/types/post";
+
+function useInvalidatePost(clickId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return (postId: string) => {
+    queryClient.invalidateQueries({ queryKey: ["posts", clickId] });
+    queryClient.invalidateQueries({ queryKey: ["post", postId] });
+    // The Dashboard picks cover photos from recent posts
+    queryClient.invalidateQueries({ queryKey: ["clicks", user?.id] });
+  };
+}
+
+export function useEditPost(clickId: string) {
+  const invalidate = useInvalidatePost(clickId);
+
+  return useMutation({
+    mutationFn: async ({
+      post,
+      content,
+      images,
+      onProgress,
+    }: {
+      post: FeedPost;
+      content: string;
+      images: EditablePostImage[];
+      /** Upload progress of each new photo, by its id in `images`. */
+      onProgress?: (id: string, percent: number) => void;
+    }) => {
+      const uploadedPaths: string[] = [];
+      const keptIds = new Set(
+        images.flatMap((item) => (item.kind === "existing" ? [item.image.id] : []))
+      );
+      const removed = post.images.filter((image) => !keptIds.has(image.id));
+
+      try {
+        const added = images.flatMap((item, order) =>
+          item.kind === "new" ? [{ id: item.id, file: item.file, order }] : []
+        );
+        const uploads = await uploadPostImages(
+          clickId,
+          post.id,
+          added.map(({ file }) => file),
+          (index, percent) => onProgress?.(added[index].id, percent)
+        );
+        uploadedPaths.push(...uploads.flatMap(({ path }) => [path, thumbnailPath(path)]));
+
+        if (removed.length > 0) {
+          const { error } = await supabase
+            .from("post_images")
+            .delete()
+            .in("id", removed.map((image) => image.id));
+
+          if (error) throw error;
+        }
+
+        const reordered = images.flatMap((item, order) =>
+          item.kind === "existing" && item.image.order !== order ? [{ id: item.image.id, order }] : []
+        );
+        const results = await Promise.all(
+          reordered.map(({ id, order }) =>
+            supabase.from("post_images").update({ order }).eq("id", id)
+          )
+        );
+        const reorderError = results.find((result) => result.error)?.error;
+        if (reorderError) throw reorderError;
+
+        if (uploads.length > 0) {
+          const { error } = await supabase.from("post_images").insert(
+            uploads.map(({ url }, index) => ({
+              post_id: post.id,
+              image_url: url,
+              order: added[index].order,
+            }))
+          );
+          if (error) throw error;
+        }
+
+        // Last, so the realtime update others receive means the photos are final
+        const { error: postError } = await supabase
+          .from("posts")
+          .update({ content: content.trim() || null, updated_at: new Date().toISOString() })
+          .eq("id", post.id);
+
+        if (postError) throw postError;
+      } catch (error) {
+        await removePostImageFiles(uploadedPaths).catch(() => {});
+        throw error;
+      }
+
+      // The rows are gone, so a failure here only leaves unreachable files
+      try {
+        await removePostImageFiles(postImagePaths(removed.map((image) => image.image_url)));
+      } catch (error) {
+        console.error("Error:", error);
+      }
+    },
+    onSettled: (_data, _error, { post }) => invalidate(post.id),
+  });
+}
+
+/**
+ * Deletes a post for its author or a Click admin. Likes, comments and image
+ * rows cascade in the database; the files are removed here.
+ */
+export function useDeletePost(clickId: string) {
+  const invalidate = useInvalidatePost(clickId);
+
+  return useMutation({
+    mutationFn: async (post: FeedPost) => {
+      const { data, error } = await supabase
+        .from("posts")
+        .delete()
+        .eq("id", post.id)
+        .select("id");
+
+      if (error) throw error;
+      // RLS hides rows it won't delete rather than raising an error
+      if (data.length === 0) throw new Error("You can't delete this post");
+
+      try {
+        await removePostFolder(clickId, post.id);
+      } catch (error) {
+        console.error("Error:", error);
+      }
+    },
+    onSettled: (_data, _error, post) => invalidate(post.id),
+  });
+}
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useToast } from "@/components/ui/use-toast";
+import { MAX_POST_IMAGES } from "@/lib/post-images";
+import type { EditablePostImage } from "@/types/post";
+
+const releasePreviews = (images: EditablePostImage[]) =>
+  images.forEach((item) => item.kind === "new" && URL.revokeObjectURL(item.previewUrl));
+
+/**
+ * The photos picked for a post while it is composed or edited: adding files up
+ * to the limit, removing, reordering and per-photo upload progress. Preview
+ * URLs are released when photos are removed or the component unmounts.
+ */
+export function usePostImageList(initial: () => EditablePostImage[] = () => []) {
+  const { toast } = useToast();
+  const [images, setImages] = useState<EditablePostImage[]>(initial);
+  const [progress, setProgress] = useState<Record<string, number>>({});
+
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+  useEffect(() => {
+    return () => releasePreviews(imagesRef.current);
+  }, []);
+
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+
+    const room = MAX_POST_IMAGES - images.length;
+    if (files.length > room) {
+      toast({
+        variant: "destructive",
+        title: "Too many photos",
+        description: `A post can have at most ${MAX_POST_IMAGES} photos.`,
+      });
+    }
+
+    setImages((current) => [
+      ...current,
+      ...files.slice(0, room).map((file) => ({
+        kind: "new" as const,
+        id: crypto.randomUUID(),
+        file,
+        previewUrl: URL.createObjectURL(file),
+      })),
+    ]);
+  };
+
+  const removeImage = (id: string) => {
+    setImages((current) => {
+      releasePreviews(current.filter((item) => item.id === id));
+      return current.filter((item) => item.id !== id);
+    });
+  };
+
+  const moveImage = (fromId: string, toId: string) => {
+    if (fromId === toId) return;
+    setImages((current) => {
+      const next = [...current];
+      const fromIndex = next.findIndex((item) => item.id === fromId);
+      const toIndex = next.findIndex((item) => item.id === toId);
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    });
+  };
+
+  // Stable, as uploads report through it long after the render that started them
+  const setImageProgress = useCallback((id: string, percent: number) => {
+    setProgress((current) => ({ ...current, [id]: percent }));
+  }, []);
+
+  const resetProgress = () => setProgress({});
+
+  const clear = () => {
+    releasePreviews(images);
+    setImages([]);
+    setProgress({});
+  };
+
+  return {
+    images,
+    progress,
+    handleFilesSelected,
+    removeImage,
+    moveImage,
+    setImageProgress,
+    resetProgress,
+    clear,
+  };
+}
@@ -0,0 +1,37 @@
+import { useQuery, useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { FEED_POST_SELECT, toFeedPosts, type PostRow } from "@/hooks/use-click-feed";
+import type { FeedPost } from "@/types/post";
+
+/**
+ * A single post, shown straight away from the feed cache when it's there and
+ * fetched on its own for deep links.
+ */
+export function usePost(clickId: string | undefined, postId: string | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: ["post", postId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("posts")
+        .select(FEED_POST_SELECT)
+        .eq("id", postId)
+        .eq("click_id", clickId)
+        .eq("my_likes.user_id", user?.id)
+        .single();
+
+      if (error) throw error;
+      const [post] = await toFeedPosts([data as unknown as PostRow]);
+      return post;
+    },
+    placeholderData: () =>
+      queryClient
+        .getQueryData<InfiniteData<FeedPost[]>>(["posts", clickId])
+        ?.pages.flat()
+        .find((post) => post.id === postId),
+    enabled: !!clickId && !!postId && !!user,
+  });
+}
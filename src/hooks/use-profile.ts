@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import type { Profile } from "@/types/profile";
+
+/** Public profile fields of the signed-in user, for headers and menus. */
+export function useProfileSummary() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["profile", user?.id, "summary"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, username, full_name, avatar_url")
+        .eq("id", user?.id)
+        .single();
+
+      if (error) throw error;
+      return data as Profile;
+    },
+    enabled: !!user,
+  });
+}
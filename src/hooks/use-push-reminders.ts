@@ -0,0 +1,100 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  getPushSubscription,
+  registerPushSubscription,
+  removeDevicePushSubscription,
+  subscribeToPush,
+} from "@/lib/push";
+
+/** Whether the signed-in user wants reminder pushes on any of their devices. */
+export function useReminderPushPreference() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["notification-preferences", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("notification_preferences")
+        .select("reminder_push")
+        .eq("user_id", user?.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.reminder_push ?? false;
+    },
+    enabled: !!user,
+  });
+}
+
+/** Whether this browser is subscribed, which only the browser itself knows. */
+export function useDevicePushSubscription() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["push-subscription", user?.id],
+    queryFn: async () => !!(await getPushSubscription()),
+    enabled: !!user,
+  });
+}
+
+/**
+ * Turns reminder pushes on or off for the user. Turning them on also
+ * subscribes this device, which is where the user is asking from.
+ */
+export function useSetReminderPush() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (enabled: boolean) => {
+      if (enabled) {
+        await registerPushSubscription(await subscribeToPush());
+      }
+
+      const { error } = await supabase
+        .from("notification_preferences")
+        .upsert({ user_id: user!.id, reminder_push: enabled, updated_at: new Date().toISOString() });
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["notification-preferences", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["push-subscription", user?.id] });
+    },
+  });
+}
+
+/**
+ * Stops pushes to this device while leaving the user's other devices alone.
+ * When this was the last one, reminders are turned off too, so the setting
+ * doesn't claim they're on with nowhere to send them. Resolves to whether
+ * that happened.
+ */
+export function useRemoveDevicePush() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      await removeDevicePushSubscription();
+
+      const { count, error } = await supabase
+        .from("push_subscriptions")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user!.id);
+      if (error) throw error;
+      if (count) return false;
+
+      const { error: preferenceError } = await supabase
+        .from("notification_preferences")
+        .upsert({ user_id: user!.id, reminder_push: false, updated_at: new Date().toISOString() });
+      if (preferenceError) throw preferenceError;
+      return true;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["notification-preferences", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["push-subscription", user?.id] });
+    },
+  });
+}
@@ -0,0 +1,42 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { isReminderActive } from "@/lib/reminders";
+import { getPreviousOccurrence, scheduleFromClick } from "@/lib/schedule";
+import type { Click } from "@/types/click";
+import type { Reminder } from "@/types/reminder";
+
+/**
+ * Loads the reminder for the Click's latest scheduled occurrence while it is
+ * still active, creating the row the first time any member asks for it.
+ */
+export function useCurrentReminder(click: Click | undefined) {
+  const { user } = useAuth();
+  const schedule = click ? scheduleFromClick(click) : null;
+  const scheduledFor = schedule ? getPreviousOccurrence(schedule) : null;
+  const active = !!scheduledFor && isReminderActive(scheduledFor);
+
+  return useQuery({
+    queryKey: ["reminder", click?.id, scheduledFor?.toISOString()],
+    queryFn: async () => {
+      // The server checks the time against the schedule and picks the prompt
+      const { data: reminder, error } = await supabase.rpc("ensure_reminder", {
+        target_click_id: click!.id,
+        reminder_scheduled_for: scheduledFor!.toISOString(),
+      });
+
+      if (error) throw error;
+
+      const { count, error: countError } = await supabase
+        .from("posts")
+        .select("id", { count: "exact", head: true })
+        .eq("reminder_id", reminder.id)
+        .eq("user_id", user?.id);
+
+      if (countError) throw countError;
+
+      return { reminder: reminder as Reminder, responded: (count ?? 0) > 0 };
+    },
+    enabled: !!user && active,
+  });
+}
@@ -0,0 +1,34 @@
+import { useEffect, useRef } from "react";
+import { useNavigationType } from "react-router-dom";
+
+// Kept for the session only; a reload starts every page at the top
+const positions = new Map<string, number>();
+
+/**
+ * Remembers the window scroll position under `key` and puts it back when the
+ * user returns with the back/forward buttons. Pass `ready` once the content is
+ * tall enough to scroll to, e.g. when cached feed pages have rendered.
+ */
+export function useScrollRestoration(key: string | undefined, ready: boolean) {
+  const navigationType = useNavigationType();
+  const restoredKey = useRef<string>();
+
+  useEffect(() => {
+    if (!key || !ready || restoredKey.current === key) return;
+    restoredKey.current = key;
+
+    const saved = positions.get(key);
+    if (navigationType === "POP" && saved !== undefined) {
+      window.scrollTo(0, saved);
+    }
+  }, [key, ready, navigationType]);
+
+  useEffect(() => {
+    if (!key) return;
+    // Saved as the user scrolls, since by unmount the next page may already
+    // have moved the window
+    const save = () => positions.set(key, window.scrollY);
+    window.addEventListener("scroll", save, { passive: true });
+    return () => window.removeEventListener("scroll", save);
+  }, [key]);
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { signPostImages } from "@/lib/post-images";
+import { SIGNED_URL_TTL } from "@/lib/storage";
+
+/** Signed URLs for one stored photo, such as a Click's cover. */
+export function useSignedPostImage(url: string | null | undefined) {
+  return useQuery({
+    queryKey: ["signed-post-image", url],
+    queryFn: async () => (await signPostImages([url!])).get(url!) ?? null,
+    // Re-sign well before the old URLs expire
+    staleTime: (SIGNED_URL_TTL * 1000) / 2,
+    enabled: !!url,
+  });
+}
@@ -9,6 +9,53 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      click_invites: {
+        Row: {
+          click_id: string
+          code: string
+          created_at: string
+          created_by: string
+          expires_at: string | null
+          id: string
+          max_uses: number | null
+          revoked_at: string | null
+          role: string
+          use_count: number
+        }
+        Insert: {
+          click_id: string
+          code?: string
+          created_at?: string
+          created_by: string
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          role?: string
+          use_count?: number
+        }
+        Update: {
+          click_id?: string
+          code?: string
+          created_at?: string
+          created_by?: string
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          role?: string
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "click_invites_click_id_fkey"
+            columns: ["click_id"]
+            isOneToOne: false
+            referencedRelation: "clicks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       click_members: {
         Row: {
           click_id: string
@@ -40,6 +87,8 @@ export type Database = {
       }
       clicks: {
         Row: {
+          archived_at: string | null
+          cover_image_url: string | null
           created_at: string
           created_by: string
           description: string | null
@@ -50,9 +99,12 @@ export type Database = {
             | Database["public"]["Enums"]["click_frequency"]
             | null
           schedule_time: string | null
+          schedule_timezone: string
           updated_at: string
         }
         Insert: {
+          archived_at?: string | null
+          cover_image_url?: string | null
           created_at?: string
           created_by: string
           description?: string | null
@@ -63,9 +115,12 @@ export type Database = {
             | Database["public"]["Enums"]["click_frequency"]
             | null
           schedule_time?: string | null
+          schedule_timezone?: string
           updated_at?: string
         }
         Update: {
+          archived_at?: string | null
+          cover_image_url?: string | null
           created_at?: string
           created_by?: string
           description?: string | null
@@ -76,14 +131,17 @@ export type Database = {
             | Database["public"]["Enums"]["click_frequency"]
             | null
           schedule_time?: string | null
+          schedule_timezone?: string
           updated_at?: string
         }
         Relationships: []
       }
       comments: {
         Row: {
+          click_id: string
           content: string
           created_at: string
+          deleted_at: string | null
           id: string
           parent_id: string | null
           post_id: string
@@ -91,8 +149,10 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          click_id?: string
           content: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
           parent_id?: string | null
           post_id: string
@@ -100,8 +160,10 @@ export type Database = {
           user_id: string
         }
         Update: {
+          click_id?: string
           content?: string
           created_at?: string
+          deleted_at?: string | null
           id?: string
           parent_id?: string | null
           post_id?: string
@@ -109,6 +171,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "comments_click_id_fkey"
+            columns: ["click_id"]
+            isOneToOne: false
+            referencedRelation: "clicks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "comments_parent_id_fkey"
             columns: ["parent_id"]
@@ -129,40 +198,50 @@ export type Database = {
         Row: {
           created_at: string
           friend_id: string
-          status: string | null
+          status: Database["public"]["Enums"]["friend_status"]
           user_id: string
         }
         Insert: {
           created_at?: string
           friend_id: string
-          status?: string | null
+          status?: Database["public"]["Enums"]["friend_status"]
           user_id: string
         }
         Update: {
           created_at?: string
           friend_id?: string
-          status?: string | null
+          status?: Database["public"]["Enums"]["friend_status"]
           user_id?: string
         }
         Relationships: []
       }
       likes: {
         Row: {
+          click_id: string
           created_at: string
           post_id: string
           user_id: string
         }
         Insert: {
+          click_id?: string
           created_at?: string
           post_id: string
           user_id: string
         }
         Update: {
+          click_id?: string
           created_at?: string
           post_id?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "likes_click_id_fkey"
+            columns: ["click_id"]
+            isOneToOne: false
+            referencedRelation: "clicks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "likes_post_id_fkey"
             columns: ["post_id"]
@@ -172,6 +251,82 @@ export type Database = {
           },
         ]
       }
+      notification_preferences: {
+        Row: {
+          reminder_push: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          reminder_push?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          reminder_push?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          actor_id: string
+          click_id: string | null
+          comment_id: string | null
+          created_at: string
+          id: string
+          post_id: string | null
+          read_at: string | null
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          actor_id: string
+          click_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          post_id?: string | null
+          read_at?: string | null
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          actor_id?: string
+          click_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          post_id?: string | null
+          read_at?: string | null
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_click_id_fkey"
+            columns: ["click_id"]
+            isOneToOne: false
+            referencedRelation: "clicks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       post_images: {
         Row: {
           created_at: string
@@ -243,6 +398,13 @@ export type Database = {
             referencedRelation: "clicks"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "posts_reminder_id_fkey"
+            columns: ["reminder_id"]
+            isOneToOne: false
+            referencedRelation: "reminders"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -275,15 +437,209 @@ export type Database = {
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reminders: {
+        Row: {
+          click_id: string
+          created_at: string
+          id: string
+          prompt: string
+          push_sent_at: string | null
+          scheduled_for: string
+        }
+        Insert: {
+          click_id: string
+          created_at?: string
+          id?: string
+          prompt: string
+          push_sent_at?: string | null
+          scheduled_for: string
+        }
+        Update: {
+          click_id?: string
+          created_at?: string
+          id?: string
+          prompt?: string
+          push_sent_at?: string | null
+          scheduled_for?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminders_click_id_fkey"
+            columns: ["click_id"]
+            isOneToOne: false
+            referencedRelation: "clicks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_invite: {
+        Args: {
+          invite_code: string
+        }
+        Returns: string
+      }
+      create_click: {
+        Args: {
+          click_name: string
+          click_description?: string
+          click_schedule_frequency?: Database["public"]["Enums"]["click_frequency"]
+          click_schedule_day?: number
+          click_schedule_time?: string
+          click_schedule_timezone?: string
+        }
+        Returns: {
+          archived_at: string | null
+          cover_image_url: string | null
+          created_at: string
+          created_by: string
+          description: string | null
+          id: string
+          name: string
+          schedule_day: number | null
+          schedule_frequency:
+            | Database["public"]["Enums"]["click_frequency"]
+            | null
+          schedule_time: string | null
+          schedule_timezone: string
+          updated_at: string
+        }
+      }
+      delete_comment: {
+        Args: {
+          target_comment_id: string
+        }
+        Returns: undefined
+      }
+      ensure_reminder: {
+        Args: {
+          target_click_id: string
+          reminder_scheduled_for: string
+        }
+        Returns: {
+          click_id: string
+          created_at: string
+          id: string
+          prompt: string
+          push_sent_at: string | null
+          scheduled_for: string
+        }
+      }
+      get_invite_preview: {
+        Args: {
+          invite_code: string
+        }
+        Returns: {
+          click_id: string
+          click_name: string
+          click_description: string
+          member_count: number
+          role: string
+          is_valid: boolean
+          is_member: boolean
+        }[]
+      }
+      is_click_admin: {
+        Args: {
+          target_click_id: string
+        }
+        Returns: boolean
+      }
+      leave_click: {
+        Args: {
+          target_click_id: string
+        }
+        Returns: undefined
+      }
+      register_push_subscription: {
+        Args: {
+          subscription_endpoint: string
+          subscription_p256dh: string
+          subscription_auth: string
+          subscription_user_agent: string
+        }
+        Returns: undefined
+      }
+      reminder_prompt: {
+        Args: {
+          target_click_id: string
+          reminder_scheduled_for: string
+        }
+        Returns: string
+      }
+      remove_member: {
+        Args: {
+          target_click_id: string
+          member_id: string
+        }
+        Returns: undefined
+      }
+      set_member_role: {
+        Args: {
+          target_click_id: string
+          member_id: string
+          new_role: string
+        }
+        Returns: undefined
+      }
+      transfer_click_ownership: {
+        Args: {
+          target_click_id: string
+          new_owner_id: string
+        }
+        Returns: undefined
+      }
+      verify_password: {
+        Args: {
+          current_password: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       click_frequency: "daily" | "weekly" | "monthly"
+      friend_status: "pending" | "accepted" | "declined" | "blocked"
+      notification_type:
+        | "like"
+        | "comment"
+        | "reply"
+        | "friend_request"
+        | "friend_accepted"
+        | "member_joined"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -0,0 +1,62 @@
+import type { Comment, CommentNode } from "@/types/comment";
+import type { Profile } from "@/types/profile";
+
+export const MAX_COMMENT_DEPTH = 3;
+
+/**
+ * Builds the reply tree for a post's comments, oldest first. Replies nested
+ * deeper than `maxDepth` are attached to their ancestor at `maxDepth` and
+ * remember who they were replying to.
+ */
+export function buildCommentTree(
+  comments: Comment[],
+  profilesById: Map<string, Profile>,
+  maxDepth = MAX_COMMENT_DEPTH
+): CommentNode[] {
+  const sorted = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const nodesById = new Map<string, CommentNode>();
+  const roots: CommentNode[] = [];
+
+  const toNode = (comment: Comment): CommentNode => ({
+    comment,
+    author: profilesById.get(comment.user_id) ?? null,
+    depth: 0,
+    replyingTo: null,
+    children: [],
+  });
+
+  sorted.forEach((comment) => nodesById.set(comment.id, toNode(comment)));
+
+  sorted.forEach((comment) => {
+    const node = nodesById.get(comment.id)!;
+    const parent = comment.parent_id ? nodesById.get(comment.parent_id) : undefined;
+
+    // Orphans (parent deleted or not loaded) are shown at the top level
+    if (!parent) {
+      roots.push(node);
+      return;
+    }
+
+    if (parent.depth < maxDepth) {
+      node.depth = parent.depth + 1;
+      parent.children.push(node);
+      return;
+    }
+
+    let anchor = parent;
+    while (anchor.depth > maxDepth - 1 && anchor.comment.parent_id) {
+      const next = nodesById.get(anchor.comment.parent_id);
+      if (!next) break;
+      anchor = next;
+    }
+    node.depth = maxDepth;
+    node.replyingTo = parent.author;
+    anchor.children.push(node);
+  });
+
+  return roots;
+}
+
+export function countReplies(node: CommentNode): number {
+  return node.children.reduce((total, child) => total + 1 + countReplies(child), 0);
+}
@@ -0,0 +1,34 @@
+import type { FeedPost } from "@/types/post";
+import type { Reminder } from "@/types/reminder";
+
+export type FeedItem =
+  | { kind: "post"; post: FeedPost }
+  | { kind: "reminder"; reminder: Reminder; posts: FeedPost[] };
+
+/**
+ * Collects responses to the same reminder into one item, placed where the
+ * newest response would have appeared in the feed.
+ */
+export function groupFeedByReminder(posts: FeedPost[]): FeedItem[] {
+  const items: FeedItem[] = [];
+  const groups = new Map<string, Extract<FeedItem, { kind: "reminder" }>>();
+
+  posts.forEach((post) => {
+    if (!post.reminder) {
+      items.push({ kind: "post", post });
+      return;
+    }
+
+    const group = groups.get(post.reminder.id);
+    if (group) {
+      group.posts.push(post);
+      return;
+    }
+
+    const item = { kind: "reminder" as const, reminder: post.reminder, posts: [post] };
+    groups.set(post.reminder.id, item);
+    items.push(item);
+  });
+
+  return items;
+}
@@ -0,0 +1,97 @@
+import type {
+  FriendAction,
+  FriendRelationship,
+  FriendStatus,
+  Friendship,
+} from "@/types/friend";
+
+export type FriendshipWrite =
+  | { kind: "insert"; row: Pick<Friendship, "user_id" | "friend_id" | "status"> }
+  | { kind: "update"; match: Pick<Friendship, "user_id" | "friend_id">; row: Pick<Friendship, "user_id" | "friend_id" | "status"> }
+  | { kind: "delete"; match: Pick<Friendship, "user_id" | "friend_id"> };
+
+export class FriendActionError extends Error {
+  constructor(action: FriendAction, relationship: FriendRelationship) {
+    super(`Can't ${action} from the "${relationship}" state.`);
+    this.name = "FriendActionError";
+  }
+}
+
+export function getRelationship(
+  friendship: Friendship | null | undefined,
+  viewerId: string
+): FriendRelationship {
+  if (!friendship) return "none";
+
+  const sentByViewer = friendship.user_id === viewerId;
+  switch (friendship.status) {
+    case "pending":
+      return sentByViewer ? "outgoing" : "incoming";
+    case "accepted":
+      return "friends";
+    case "declined":
+      return "declined";
+    case "blocked":
+      return sentByViewer ? "blocked" : "blocked_by";
+  }
+}
+
+const ALLOWED_ACTIONS: Record<FriendRelationship, FriendAction[]> = {
+  none: ["request", "block"],
+  outgoing: ["cancel", "block"],
+  incoming: ["accept", "decline", "block"],
+  friends: ["unfriend", "block"],
+  declined: ["request", "block"],
+  blocked: ["unblock"],
+  blocked_by: [],
+};
+
+export function allowedFriendActions(relationship: FriendRelationship) {
+  return ALLOWED_ACTIONS[relationship];
+}
+
+/**
+ * Works out the single write that moves a friendship through `action`.
+ * Each pair of users has at most one row, so requests and blocks re-point the
+ * existing row at the viewer instead of adding a second one.
+ */
+export function planFriendAction(
+  friendship: Friendship | null | undefined,
+  action: FriendAction,
+  viewerId: string,
+  otherId: string
+): FriendshipWrite {
+  const relationship = getRelationship(friendship, viewerId);
+  if (!ALLOWED_ACTIONS[relationship].includes(action)) {
+    throw new FriendActionError(action, relationship);
+  }
+
+  const fromViewer = (status: FriendStatus) => ({
+    user_id: viewerId,
+    friend_id: otherId,
+    status,
+  });
+  const match = friendship && {
+    user_id: friendship.user_id,
+    friend_id: friendship.friend_id,
+  };
+
+  switch (action) {
+    case "request":
+      return match
+        ? { kind: "update", match, row: fromViewer("pending") }
+        : { kind: "insert", row: fromViewer("pending") };
+    case "block":
+      return match
+        ? { kind: "update", match, row: fromViewer("blocked") }
+        : { kind: "insert", row: fromViewer("blocked") };
+    case "accept":
+      return { kind: "update", match, row: { ...match, status: "accepted" } };
+    case "decline":
+      return { kind: "update", match, row: { ...match, status: "declined" } };
+    case "cancel":
+    case "unfriend":
+    case "unblock":
+      return { kind: "delete", match };
+  }
+}
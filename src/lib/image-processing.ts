@@ -0,0 +1,96 @@
+export interface ImageProcessingOptions {
+  /** Longest edge of the full-size image, in pixels. */
+  maxEdge: number;
+  /** Longest edge of the thumbnail, in pixels. */
+  thumbnailEdge: number;
+  /** Encoder quality between 0 and 1. */
+  quality: number;
+}
+
+export interface ProcessedImage {
+  image: Blob;
+  thumbnail: Blob;
+  extension: "webp" | "jpg";
+}
+
+export const POST_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxEdge: 2048,
+  thumbnailEdge: 480,
+  quality: 0.82,
+};
+
+export const AVATAR_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxEdge: 512,
+  thumbnailEdge: 128,
+  quality: 0.85,
+};
+
+const THUMBNAIL_SUFFIX = ".thumb";
+
+/**
+ * Downscales and re-encodes an image in the browser.
+ *
+ * Decoding with `imageOrientation: "from-image"` bakes the EXIF rotation into
+ * the pixels, and re-encoding through a canvas drops every metadata block
+ * (GPS included), so the output is upright and clean.
+ */
+export async function processImage(
+  file: Blob,
+  options: ImageProcessingOptions = POST_IMAGE_OPTIONS
+): Promise<ProcessedImage> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    throw new Error("This image format isn't supported. Try a JPEG, PNG or WebP.");
+  }
+
+  try {
+    const image = await encode(bitmap, options.maxEdge, options.quality);
+    const thumbnail = await encode(bitmap, options.thumbnailEdge, options.quality);
+
+    return {
+      image,
+      thumbnail,
+      extension: image.type === "image/webp" ? "webp" : "jpg",
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function encode(bitmap: ImageBitmap, maxEdge: number, quality: number) {
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Could not process image.");
+  context.imageSmoothingQuality = "high";
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+  // Browsers without a WebP encoder silently hand back a PNG instead
+  const webp = await toBlob(canvas, "image/webp", quality);
+  if (webp?.type === "image/webp") return webp;
+
+  const jpeg = await toBlob(canvas, "image/jpeg", quality);
+  if (!jpeg) throw new Error("Could not process image.");
+  return jpeg;
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+/** Storage path of the thumbnail uploaded alongside `path`. */
+export function thumbnailPath(path: string) {
+  return path.replace(/(\.[^./]+)?$/, `${THUMBNAIL_SUFFIX}$1`);
+}
+
+/** Public URL of the thumbnail uploaded alongside the image at `url`. */
+export function thumbnailUrl(url: string) {
+  const parsed = new URL(url);
+  parsed.pathname = thumbnailPath(parsed.pathname);
+  return parsed.toString();
+}
@@ -0,0 +1,29 @@
+import type { ClickInvite } from "@/types/invite";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const INVITE_EXPIRY_OPTIONS = [
+  { value: "1", label: "1 day" },
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "never", label: "Never" },
+] as const;
+
+export type InviteExpiry = (typeof INVITE_EXPIRY_OPTIONS)[number]["value"];
+
+export function inviteExpiresAt(expiry: InviteExpiry, from: Date = new Date()) {
+  if (expiry === "never") return null;
+  return new Date(from.getTime() + Number(expiry) * DAY_MS).toISOString();
+}
+
+export function inviteUrl(code: string) {
+  return `${window.location.origin}/join/${code}`;
+}
+
+/** Mirrors the checks accept_invite makes before letting someone in. */
+export function isInviteActive(invite: ClickInvite, now: Date = new Date()) {
+  if (invite.revoked_at) return false;
+  if (invite.expires_at && new Date(invite.expires_at) <= now) return false;
+  if (invite.max_uses !== null && invite.use_count >= invite.max_uses) return false;
+  return true;
+}
@@ -0,0 +1,39 @@
+import type { Click, ClickMember, MemberAction } from "@/types/click";
+
+export function isOwner(click: Pick<Click, "created_by">, userId: string | undefined) {
+  return click.created_by === userId;
+}
+
+/**
+ * What the viewer may do to `member`. Mirrors the checks in the membership
+ * functions in the database, which have the final say.
+ */
+export function allowedMemberActions(
+  click: Pick<Click, "created_by">,
+  member: ClickMember,
+  viewer: ClickMember | undefined
+): MemberAction[] {
+  if (!viewer || viewer.role !== "admin" || member.user_id === viewer.user_id) return [];
+  if (isOwner(click, member.user_id)) return [];
+
+  const actions: MemberAction[] = [member.role === "admin" ? "demote" : "promote", "remove"];
+  if (isOwner(click, viewer.user_id)) actions.push("transfer");
+  return actions;
+}
+
+/** Why the viewer can't leave yet, or null if they can. */
+export function leaveBlockedReason(
+  click: Pick<Click, "created_by">,
+  members: ClickMember[],
+  viewerId: string
+) {
+  if (isOwner(click, viewerId)) {
+    return "You own this Click. Transfer ownership to another member before leaving.";
+  }
+
+  const admins = members.filter((member) => member.role === "admin");
+  if (admins.length === 1 && admins[0].user_id === viewerId) {
+    return "You're the only admin. Make another member an admin before leaving.";
+  }
+  return null;
+}
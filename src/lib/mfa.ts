@@ -0,0 +1,50 @@
+import type { Session } from "@supabase/supabase-js";
+
+export type AssuranceLevel = "aal1" | "aal2";
+
+export interface Assurance {
+  current: AssuranceLevel | null;
+  next: AssuranceLevel | null;
+}
+
+function decodeJwtPayload(token: string): { aal?: AssuranceLevel } {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(payload));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Same answer as `supabase.auth.mfa.getAuthenticatorAssuranceLevel()`, but
+ * synchronous so it can run inside onAuthStateChange without deadlocking on
+ * the client's session lock.
+ */
+export function getAssurance(session: Session | null): Assurance {
+  if (!session) return { current: null, next: null };
+
+  const current = decodeJwtPayload(session.access_token).aal ?? null;
+  const hasVerifiedFactor = session.user.factors?.some((factor) => factor.status === "verified");
+
+  return { current, next: hasVerifiedFactor ? "aal2" : current };
+}
+
+/** The user has 2FA set up but hasn't completed the challenge this session. */
+export function needsMfaChallenge(assurance: Assurance) {
+  return assurance.current === "aal1" && assurance.next === "aal2";
+}
+
+const LAST_FACTOR_KEY = "auth:lastMfaFactor";
+
+/** Remembers which authenticator app last passed the challenge on this browser. */
+export function rememberFactor(factorId: string) {
+  localStorage.setItem(LAST_FACTOR_KEY, factorId);
+}
+
+/** The factor to offer first: the last one used here, or else the newest. */
+export function preferredFactorId(factors: { id: string }[]) {
+  const lastUsed = localStorage.getItem(LAST_FACTOR_KEY);
+  if (factors.some((factor) => factor.id === lastUsed)) return lastUsed;
+  return factors[factors.length - 1]?.id ?? null;
+}
@@ -0,0 +1,94 @@
+import { displayName } from "@/lib/profiles";
+import type { Profile } from "@/types/profile";
+import type {
+  NotificationGroup,
+  NotificationType,
+  NotificationWithActor,
+} from "@/types/notification";
+
+function groupKey(notification: NotificationWithActor) {
+  switch (notification.type) {
+    case "like":
+    case "comment":
+    case "reply":
+      return `${notification.type}:${notification.post_id}`;
+    case "member_joined":
+      return `${notification.type}:${notification.click_id}`;
+    case "friend_request":
+    case "friend_accepted":
+      return notification.type;
+  }
+}
+
+/**
+ * Folds notifications about the same post, Click or kind of friend event into
+ * one item each. Expects newest first and keeps that order.
+ */
+export function groupNotifications(notifications: NotificationWithActor[]) {
+  const groups = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const key = groupKey(notification);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        type: notification.type,
+        notifications: [],
+        actors: [],
+        click_id: notification.click_id,
+        click_name: notification.click_name,
+        post_id: notification.post_id,
+        latest_at: notification.created_at,
+        unread: false,
+      };
+      groups.set(key, group);
+    }
+
+    group.notifications.push(notification);
+    if (!notification.read_at) group.unread = true;
+    // Someone who commented twice is still one person
+    const actor = notification.actor ?? {
+      id: notification.actor_id,
+      username: null,
+      full_name: null,
+      avatar_url: null,
+    };
+    if (!group.actors.some((existing) => existing.id === actor.id)) {
+      group.actors.push(actor);
+    }
+  }
+
+  return [...groups.values()];
+}
+
+/** "Ana", "Ana and Ben", "Ana and 3 others". */
+export function formatActors(actors: Profile[]) {
+  const [first, second] = actors;
+  if (actors.length === 1) return displayName(first);
+  if (actors.length === 2) return `${displayName(first)} and ${displayName(second)}`;
+  return `${displayName(first)} and ${actors.length - 1} others`;
+}
+
+const ACTIONS: Record<NotificationType, (group: NotificationGroup) => string> = {
+  like: () => "liked your post",
+  comment: () => "commented on your post",
+  reply: () => "replied to your comment",
+  friend_request: (group) =>
+    group.actors.length === 1 ? "sent you a friend request" : "sent you friend requests",
+  friend_accepted: () => "accepted your friend request",
+  member_joined: (group) => `joined ${group.click_name ?? "your Click"}`,
+};
+
+export function describeNotificationGroup(group: NotificationGroup) {
+  return `${formatActors(group.actors)} ${ACTIONS[group.type](group)}`;
+}
+
+/** Where clicking a notification should take the user. */
+export function notificationLink(group: NotificationGroup) {
+  if (group.post_id && group.click_id) {
+    return `/clicks/${group.click_id}/posts/${group.post_id}?view=post`;
+  }
+  if (group.click_id) return `/clicks/${group.click_id}`;
+  return "/friends";
+}
@@ -0,0 +1,49 @@
+import { Chrome, Facebook, type LucideIcon } from "lucide-react";
+import type { Provider } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface OAuthProviderConfig {
+  id: Provider;
+  label: string;
+  icon: LucideIcon;
+  /** Button colors, as Tailwind classes layered on `.auth-button`. */
+  className: string;
+  /** Space-separated scopes requested on top of the provider's defaults. */
+  scopes?: string;
+  queryParams?: Record<string, string>;
+}
+
+/**
+ * Sign-in buttons shown on the auth panel, in order. Adding a provider (e.g.
+ * Apple or GitHub) only needs an entry here once it's enabled in Supabase.
+ */
+export const OAUTH_PROVIDERS: OAuthProviderConfig[] = [
+  {
+    id: "google",
+    label: "Google",
+    icon: Chrome,
+    className: "bg-white text-gray-700 border-gray-200 hover:bg-gray-50",
+    queryParams: {
+      access_type: "offline",
+      prompt: "consent",
+    },
+  },
+  {
+    id: "facebook",
+    label: "Facebook",
+    icon: Facebook,
+    className: "bg-[#1877F2] text-white border-transparent hover:bg-[#1864D9]",
+    scopes: "email public_profile",
+  },
+];
+
+export function signInWithOAuthProvider(provider: OAuthProviderConfig) {
+  return supabase.auth.signInWithOAuth({
+    provider: provider.id,
+    options: {
+      redirectTo: window.location.origin,
+      scopes: provider.scopes,
+      queryParams: provider.queryParams,
+    },
+  });
+}
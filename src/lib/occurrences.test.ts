@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  getNextOccurrences,
+  getPreviousOccurrence,
+  isValidTimeZone,
+  scheduleFromClick,
+  zonedTimeToDate,
+  type ClickSchedule,
+} from "./occurrences";
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe("zonedTimeToDate", () => {
+  it("converts a wall-clock time using the zone's offset on that day", () => {
+    expect(zonedTimeToDate(2026, 1, 15, 9, 0, "America/New_York").toISOString()).toBe(
+      "2026-01-15T14:00:00.000Z"
+    );
+    expect(zonedTimeToDate(2026, 7, 15, 9, 0, "America/New_York").toISOString()).toBe(
+      "2026-07-15T13:00:00.000Z"
+    );
+  });
+
+  it("moves times in a spring-forward gap to just after it", () => {
+    // 02:30 doesn't exist in New York on 8 March 2026; clocks jump to 03:00
+    expect(zonedTimeToDate(2026, 3, 8, 2, 30, "America/New_York").toISOString()).toBe(
+      "2026-03-08T07:30:00.000Z"
+    );
+  });
+
+  it("picks one of the two instants for a repeated fall-back time", () => {
+    const date = zonedTimeToDate(2026, 11, 1, 1, 30, "America/New_York");
+    expect(["2026-11-01T05:30:00.000Z", "2026-11-01T06:30:00.000Z"]).toContain(
+      date.toISOString()
+    );
+  });
+});
+
+describe("getNextOccurrences", () => {
+  it("keeps daily reminders at the same local time across a DST change", () => {
+    const schedule: ClickSchedule = {
+      frequency: "daily",
+      day: null,
+      time: "09:00",
+      timeZone: "Europe/London",
+    };
+    const from = new Date("2026-03-28T12:00:00Z");
+
+    expect(iso(getNextOccurrences(schedule, 2, from))).toEqual([
+      "2026-03-29T08:00:00.000Z",
+      "2026-03-30T08:00:00.000Z",
+    ]);
+  });
+
+  it("includes today when the time hasn't passed yet", () => {
+    const schedule: ClickSchedule = { frequency: "daily", day: null, time: "18:30", timeZone: "UTC" };
+
+    expect(iso(getNextOccurrences(schedule, 1, new Date("2026-05-04T10:00:00Z")))).toEqual([
+      "2026-05-04T18:30:00.000Z",
+    ]);
+  });
+
+  it("fires weekly on the chosen weekday", () => {
+    const schedule: ClickSchedule = { frequency: "weekly", day: 1, time: "08:00", timeZone: "UTC" };
+
+    // 6 May 2026 is a Wednesday
+    expect(iso(getNextOccurrences(schedule, 2, new Date("2026-05-06T00:00:00Z")))).toEqual([
+      "2026-05-11T08:00:00.000Z",
+      "2026-05-18T08:00:00.000Z",
+    ]);
+  });
+
+  it("clamps monthly reminders to the last day of short months", () => {
+    const schedule: ClickSchedule = { frequency: "monthly", day: 31, time: "12:00", timeZone: "UTC" };
+
+    expect(iso(getNextOccurrences(schedule, 4, new Date("2026-01-01T00:00:00Z")))).toEqual([
+      "2026-01-31T12:00:00.000Z",
+      "2026-02-28T12:00:00.000Z",
+      "2026-03-31T12:00:00.000Z",
+      "2026-04-30T12:00:00.000Z",
+    ]);
+  });
+
+  it("uses 29 February in leap years", () => {
+    const schedule: ClickSchedule = { frequency: "monthly", day: 30, time: "12:00", timeZone: "UTC" };
+
+    expect(iso(getNextOccurrences(schedule, 1, new Date("2028-02-01T00:00:00Z")))).toEqual([
+      "2028-02-29T12:00:00.000Z",
+    ]);
+  });
+});
+
+describe("getPreviousOccurrence", () => {
+  it("returns the latest occurrence at or before the given time", () => {
+    const schedule: ClickSchedule = { frequency: "daily", day: null, time: "09:00", timeZone: "UTC" };
+
+    expect(getPreviousOccurrence(schedule, new Date("2026-05-04T08:59:00Z"))?.toISOString()).toBe(
+      "2026-05-03T09:00:00.000Z"
+    );
+    expect(getPreviousOccurrence(schedule, new Date("2026-05-04T09:00:00Z"))?.toISOString()).toBe(
+      "2026-05-04T09:00:00.000Z"
+    );
+  });
+
+  it("finds a clamped monthly occurrence in the previous month", () => {
+    const schedule: ClickSchedule = { frequency: "monthly", day: 31, time: "12:00", timeZone: "UTC" };
+
+    expect(getPreviousOccurrence(schedule, new Date("2026-03-10T00:00:00Z"))?.toISOString()).toBe(
+      "2026-02-28T12:00:00.000Z"
+    );
+  });
+});
+
+describe("scheduleFromClick", () => {
+  const click = {
+    schedule_frequency: "daily" as const,
+    schedule_day: null,
+    schedule_time: "09:00:00",
+    schedule_timezone: "Europe/Paris",
+    archived_at: null,
+  };
+
+  it("builds a schedule from the Click's columns", () => {
+    expect(scheduleFromClick(click)).toEqual({
+      frequency: "daily",
+      day: null,
+      time: "09:00:00",
+      timeZone: "Europe/Paris",
+    });
+  });
+
+  it("has no schedule for archived Clicks or unknown zones", () => {
+    expect(scheduleFromClick({ ...click, archived_at: "2026-01-01T00:00:00Z" })).toBeNull();
+    expect(scheduleFromClick({ ...click, schedule_timezone: "Mars/Olympus_Mons" })).toBeNull();
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones and rejects anything else", () => {
+    expect(isValidTimeZone("Asia/Tokyo")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Not/AZone")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+// Reminder times for Click schedules. This module has no imports so the
+// send-reminders edge function can share it with the app.
+
+export interface ClickSchedule {
+  frequency: "daily" | "weekly" | "monthly";
+  /** Weekday for weekly schedules (0 = Sunday), day of month for monthly ones. */
+  day: number | null;
+  /** Local time of day as "HH:MM" or "HH:MM:SS". */
+  time: string;
+  /** IANA time zone the time of day is expressed in. */
+  timeZone: string;
+}
+
+/** The schedule columns of a clicks row. */
+export interface ScheduleColumns {
+  schedule_frequency: ClickSchedule["frequency"] | null;
+  schedule_day: number | null;
+  schedule_time: string | null;
+  schedule_timezone: string;
+  archived_at: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A monthly schedule can skip at most a couple of days per month, so this is
+// plenty of room to find `count` occurrences without looping forever.
+const MAX_DAYS_SCANNED_PER_OCCURRENCE = 32;
+
+/** Whether `Intl` knows `timeZone`; it throws a RangeError for unknown zones. */
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function scheduleFromClick(click: ScheduleColumns): ClickSchedule | null {
+  // Archived Clicks keep their settings but stop sending reminders
+  if (click.archived_at) return null;
+  if (!click.schedule_frequency || !click.schedule_time) return null;
+  // A zone saved before zones were validated can't be scheduled in
+  if (!isValidTimeZone(click.schedule_timezone)) return null;
+
+  return {
+    frequency: click.schedule_frequency,
+    day: click.schedule_day,
+    time: click.schedule_time,
+    timeZone: click.schedule_timezone,
+  };
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/** Milliseconds `timeZone` is ahead of UTC at `instant`. */
+function getTimeZoneOffset(instant: number, timeZone: string) {
+  const parts = getZonedParts(new Date(instant), timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock time in `timeZone` to an instant. Times that fall in
+ * a daylight-saving gap land just after it, as most calendar apps do.
+ */
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+) {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const firstGuess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  const offset = getTimeZoneOffset(firstGuess, timeZone);
+  const candidate = wallClock - offset;
+
+  if (getTimeZoneOffset(candidate, timeZone) === offset) {
+    return new Date(candidate);
+  }
+  // The wall-clock time doesn't exist; of the two guesses the later one is
+  // the same time shifted forward by the size of the gap
+  return new Date(Math.max(candidate, firstGuess));
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+export function parseTime(time: string) {
+  const [hour, minute] = time.split(":").map(Number);
+  if (!Number.isInteger(hour) || !Number.isInteger(minute)) {
+    throw new Error(`Invalid schedule time "${time}"`);
+  }
+  return { hour, minute };
+}
+
+function matchesDate(schedule: ClickSchedule, year: number, month: number, day: number) {
+  switch (schedule.frequency) {
+    case "daily":
+      return true;
+    case "weekly":
+      return new Date(Date.UTC(year, month - 1, day)).getUTCDay() === schedule.day;
+    case "monthly":
+      // Short months fire on their last day instead of skipping the reminder
+      return day === Math.min(schedule.day ?? 1, daysInMonth(year, month));
+  }
+}
+
+/**
+ * Returns the next `count` reminder instants strictly after `from`.
+ */
+export function getNextOccurrences(
+  schedule: ClickSchedule,
+  count: number,
+  from: Date = new Date()
+): Date[] {
+  const { hour, minute } = parseTime(schedule.time);
+  const today = getZonedParts(from, schedule.timeZone);
+  const start = Date.UTC(today.year, today.month - 1, today.day);
+  const occurrences: Date[] = [];
+
+  for (
+    let i = 0;
+    occurrences.length < count && i < count * MAX_DAYS_SCANNED_PER_OCCURRENCE;
+    i++
+  ) {
+    const date = new Date(start + i * DAY_MS);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+
+    if (!matchesDate(schedule, year, month, day)) continue;
+
+    const occurrence = zonedTimeToDate(year, month, day, hour, minute, schedule.timeZone);
+    if (occurrence > from) occurrences.push(occurrence);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Returns the most recent reminder instant at or before `from`, if any fell
+ * within the last month.
+ */
+export function getPreviousOccurrence(
+  schedule: ClickSchedule,
+  from: Date = new Date()
+): Date | null {
+  const { hour, minute } = parseTime(schedule.time);
+  const today = getZonedParts(from, schedule.timeZone);
+  const start = Date.UTC(today.year, today.month - 1, today.day);
+
+  for (let i = 0; i < MAX_DAYS_SCANNED_PER_OCCURRENCE; i++) {
+    const date = new Date(start - i * DAY_MS);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+
+    if (!matchesDate(schedule, year, month, day)) continue;
+
+    const occurrence = zonedTimeToDate(year, month, day, hour, minute, schedule.timeZone);
+    if (occurrence <= from) return occurrence;
+  }
+
+  return null;
+}
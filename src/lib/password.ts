@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export const PASSWORD_STRENGTH_LABELS: Record<PasswordStrength, string> = {
+  0: "Too weak",
+  1: "Weak",
+  2: "Fair",
+  3: "Good",
+  4: "Strong",
+};
+
+const COMMON_PASSWORDS = new Set([
+  "password",
+  "password1",
+  "12345678",
+  "123456789",
+  "qwertyui",
+  "iloveyou",
+  "letmein1",
+  "welcome1",
+  "sunshine",
+  "football",
+]);
+
+/**
+ * Rough strength estimate from length and character variety. It's a nudge
+ * for the UI, not a substitute for the server-side password policy.
+ */
+export function scorePassword(password: string): PasswordStrength {
+  if (password.length < MIN_PASSWORD_LENGTH || COMMON_PASSWORDS.has(password.toLowerCase())) {
+    return 0;
+  }
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((pattern) =>
+    pattern.test(password)
+  ).length;
+
+  let score = classes - 1;
+  if (password.length >= 12) score += 1;
+  if (password.length >= 16) score += 1;
+  if (/(.)\1{2,}/.test(password)) score -= 1;
+
+  return Math.max(1, Math.min(4, score)) as PasswordStrength;
+}
+
+export const newPasswordSchema = z
+  .string()
+  .min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  .refine((password) => scorePassword(password) >= 2, "Choose a stronger password");
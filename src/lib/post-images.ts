@@ -0,0 +1,149 @@
+import { supabase } from "@/integrations/supabase/client";
+import { POST_IMAGE_OPTIONS, processImage, thumbnailPath } from "@/lib/image-processing";
+import {
+  POST_IMAGES_BUCKET,
+  SIGNED_URL_TTL,
+  listFolderFiles,
+  storagePathFromPublicUrl,
+  uploadWithProgress,
+} from "@/lib/storage";
+import type { SignedImage } from "@/types/post";
+
+export const MAX_POST_IMAGES = 10;
+
+/**
+ * Processes a photo and uploads it with its thumbnail under the post's folder.
+ * If the photo itself fails, the thumbnail is removed again before rethrowing.
+ */
+export async function uploadPostImage(
+  clickId: string,
+  postId: string,
+  file: File,
+  onProgress: (percent: number) => void = () => {}
+) {
+  const processed = await processImage(file, POST_IMAGE_OPTIONS);
+  const path = `${clickId}/${postId}/${crypto.randomUUID()}.${processed.extension}`;
+
+  const { error: thumbnailError } = await supabase.storage
+    .from(POST_IMAGES_BUCKET)
+    .upload(thumbnailPath(path), processed.thumbnail);
+
+  if (thumbnailError) throw thumbnailError;
+
+  try {
+    const url = await uploadWithProgress(POST_IMAGES_BUCKET, path, processed.image, onProgress);
+    return { url, path };
+  } catch (error) {
+    await supabase.storage.from(POST_IMAGES_BUCKET).remove([thumbnailPath(path)]);
+    throw error;
+  }
+}
+
+/**
+ * Uploads several photos at once. A failure is only reported once every
+ * upload has settled, and the ones that made it are removed again, so no
+ * upload can land after the cleanup.
+ */
+export async function uploadPostImages(
+  clickId: string,
+  postId: string,
+  files: File[],
+  onProgress: (index: number, percent: number) => void = () => {}
+) {
+  const results = await Promise.allSettled(
+    files.map((file, index) =>
+      uploadPostImage(clickId, postId, file, (percent) => onProgress(index, percent))
+    )
+  );
+
+  const failure = results.find(
+    (result): result is PromiseRejectedResult => result.status === "rejected"
+  );
+  const uploaded = results.flatMap((result) =>
+    result.status === "fulfilled" ? [result.value] : []
+  );
+
+  if (failure) {
+    await removePostImageFiles(
+      uploaded.flatMap(({ path }) => [path, thumbnailPath(path)])
+    ).catch((error) => console.error("Error:", error));
+    throw failure.reason;
+  }
+  return uploaded;
+}
+
+/**
+ * Signed URLs for photos (and their thumbnails) in the private bucket, keyed
+ * by the URL stored in their row. Photos from before thumbnails existed use
+ * the full image as their thumbnail.
+ */
+export async function signPostImages(urls: string[]) {
+  const signed = new Map<string, SignedImage>();
+  const paths = [
+    ...new Set(
+      urls
+        .map((url) => storagePathFromPublicUrl(POST_IMAGES_BUCKET, url))
+        .filter((path): path is string => !!path)
+    ),
+  ];
+  if (paths.length === 0) return signed;
+
+  const { data, error } = await supabase.storage
+    .from(POST_IMAGES_BUCKET)
+    .createSignedUrls(
+      paths.flatMap((path) => [path, thumbnailPath(path)]),
+      SIGNED_URL_TTL
+    );
+
+  if (error) throw error;
+
+  const urlsByPath = new Map(
+    data.flatMap((item) => (item.signedUrl && item.path ? [[item.path, item.signedUrl]] : []))
+  );
+  for (const url of urls) {
+    const path = storagePathFromPublicUrl(POST_IMAGES_BUCKET, url);
+    const full = path && urlsByPath.get(path);
+    if (!full) continue;
+    signed.set(url, { url: full, thumbnailUrl: urlsByPath.get(thumbnailPath(path)) ?? full });
+  }
+  return signed;
+}
+
+/** Storage paths of the photos (and thumbnails) behind these public URLs. */
+export function postImagePaths(urls: string[]) {
+  return urls
+    .map((url) => storagePathFromPublicUrl(POST_IMAGES_BUCKET, url))
+    .filter((path): path is string => !!path)
+    .flatMap((path) => [path, thumbnailPath(path)]);
+}
+
+// Storage removes at most this many objects per request
+const REMOVE_BATCH_SIZE = 1000;
+
+export async function removePostImageFiles(paths: string[]) {
+  for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+    const { error } = await supabase.storage
+      .from(POST_IMAGES_BUCKET)
+      .remove(paths.slice(i, i + REMOVE_BATCH_SIZE));
+    if (error) throw error;
+  }
+}
+
+/** Everything stored under a post's folder, including files from failed edits. */
+export async function removePostFolder(clickId: string, postId: string) {
+  const folder = `${clickId}/${postId}`;
+  const { data, error } = await supabase.storage.from(POST_IMAGES_BUCKET).list(folder, {
+    limit: 1000,
+  });
+
+  if (error) throw error;
+  await removePostImageFiles(data.map((file) => `${folder}/${file.name}`));
+}
+
+/**
+ * Every photo, thumbnail and cover stored for a Click. Only members can list
+ * them, so this has to happen before the Click is deleted.
+ */
+export function listClickFiles(clickId: string) {
+  return listFolderFiles(POST_IMAGES_BUCKET, clickId);
+}
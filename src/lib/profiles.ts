@@ -0,0 +1,23 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Profile } from "@/types/profile";
+
+/**
+ * Loads public profile fields for a set of users. Most tables reference
+ * auth.users rather than profiles, so profiles can't be embedded in selects.
+ */
+export async function fetchProfiles(userIds: string[]) {
+  const uniqueIds = [...new Set(userIds)];
+  if (uniqueIds.length === 0) return new Map<string, Profile>();
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id, username, full_name, avatar_url")
+    .in("id", uniqueIds);
+
+  if (error) throw error;
+  return new Map(data.map((profile) => [profile.id, profile as Profile]));
+}
+
+export function displayName(profile: Profile | null | undefined) {
+  return profile?.full_name || profile?.username || "Unknown member";
+}
@@ -0,0 +1,92 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/** Public half of the VAPID key pair the send-reminders function signs with. */
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+export function isPushSupported() {
+  return (
+    !!VAPID_PUBLIC_KEY &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+// applicationServerKey wants the raw key bytes, not the base64url text
+function urlBase64ToUint8Array(value: string) {
+  const padding = "=".repeat((4 - (value.length % 4)) % 4);
+  const base64 = (value + padding).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+async function getRegistration() {
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  return navigator.serviceWorker.ready;
+}
+
+/** This browser's current subscription, if it has one. */
+export async function getPushSubscription() {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+/**
+ * Asks for permission if needed and subscribes this browser. Throws when the
+ * user blocks notifications, since there's nothing to subscribe then.
+ */
+export async function subscribeToPush() {
+  if (!isPushSupported()) {
+    throw new Error("This browser doesn't support push notifications");
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notifications are blocked for this site in your browser settings");
+  }
+
+  const registration = await getRegistration();
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) return existing;
+
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+  });
+}
+
+/**
+ * Saves this browser's subscription for the signed-in user. A shared browser
+ * keeps its endpoint across accounts, so the server hands it over from
+ * whoever subscribed on it before.
+ */
+export async function registerPushSubscription(subscription: PushSubscription) {
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) {
+    throw new Error("The browser returned an incomplete push subscription");
+  }
+
+  const { error } = await supabase.rpc("register_push_subscription", {
+    subscription_endpoint: endpoint,
+    subscription_p256dh: keys.p256dh,
+    subscription_auth: keys.auth,
+    subscription_user_agent: navigator.userAgent,
+  });
+  if (error) throw error;
+}
+
+/** Unsubscribes this browser and forgets it, so nothing is pushed to it any more. */
+export async function removeDevicePushSubscription() {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .from("push_subscriptions")
+    .delete()
+    .eq("endpoint", subscription.endpoint);
+  if (error) throw error;
+
+  await subscription.unsubscribe();
+}
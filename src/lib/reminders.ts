@@ -0,0 +1,10 @@
+/**
+ * How long after its scheduled time a reminder is shown as today's prompt.
+ * ensure_reminder only creates reminders this recent.
+ */
+export const REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export function isReminderActive(scheduledFor: Date, now: Date = new Date()) {
+  const elapsed = now.getTime() - scheduledFor.getTime();
+  return elapsed >= 0 && elapsed < REMINDER_WINDOW_MS;
+}
@@ -0,0 +1,43 @@
+const STORAGE_KEY = "auth:returnTo";
+const DEFAULT_RETURN_TO = "/dashboard";
+// Long enough for an OAuth round-trip or opening a magic link email
+const MAX_AGE_MS = 60 * 60 * 1000;
+
+interface StoredReturnTo {
+  path: string;
+  savedAt: number;
+}
+
+// Only same-origin paths, so a crafted link can't bounce users off-site
+function isSafePath(path: string) {
+  return path.startsWith("/") && !path.startsWith("//") && path !== "/";
+}
+
+/**
+ * Remembers where a signed-out visitor was headed. Kept in localStorage so it
+ * survives OAuth redirects and email links opened in a new tab.
+ */
+export function saveReturnTo(path: string) {
+  if (!isSafePath(path)) return;
+  const value: StoredReturnTo = { path, savedAt: Date.now() };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(value));
+}
+
+export function clearReturnTo() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/** Returns the saved destination (or the dashboard) and forgets it. */
+export function consumeReturnTo() {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  clearReturnTo();
+  if (!raw) return DEFAULT_RETURN_TO;
+
+  try {
+    const { path, savedAt } = JSON.parse(raw) as StoredReturnTo;
+    if (isSafePath(path) && Date.now() - savedAt < MAX_AGE_MS) return path;
+  } catch {
+    // Fall through to the default for anything we didn't write
+  }
+  return DEFAULT_RETURN_TO;
+}
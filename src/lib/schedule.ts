@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { isValidTimeZone, parseTime, type ClickSchedule } from "@/lib/occurrences";
+import type { Click } from "@/types/click";
+
+export {
+  getNextOccurrences,
+  getPreviousOccurrence,
+  isValidTimeZone,
+  scheduleFromClick,
+  zonedTimeToDate,
+  type ClickSchedule,
+} from "@/lib/occurrences";
+
+export const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+export function browserTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function formatTimeOfDay(time: string) {
+  const { hour, minute } = parseTime(time);
+  return new Date(Date.UTC(2000, 0, 1, hour, minute)).toLocaleTimeString(undefined, {
+    timeZone: "UTC",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function ordinal(n: number) {
+  const suffixes = ["th", "st", "nd", "rd"];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+}
+
+export function describeSchedule(schedule: ClickSchedule) {
+  const at = `at ${formatTimeOfDay(schedule.time)}`;
+
+  switch (schedule.frequency) {
+    case "daily":
+      return `Every day ${at}`;
+    case "weekly":
+      return `Every ${WEEKDAYS[schedule.day ?? 0]} ${at}`;
+    case "monthly":
+      return `Monthly on the ${ordinal(schedule.day ?? 1)} ${at}`;
+  }
+}
+
+export function formatOccurrence(date: Date) {
+  return date.toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export const scheduleFormSchema = z
+  .object({
+    frequency: z.enum(["none", "daily", "weekly", "monthly"]),
+    day: z.number().int().nullable(),
+    time: z.string(),
+    timeZone: z
+      .string()
+      .min(1, "Choose a time zone")
+      .refine(isValidTimeZone, "Choose a time zone from the list"),
+  })
+  .superRefine((value, ctx) => {
+    if (value.frequency === "none") return;
+
+    if (!/^\d{2}:\d{2}(:\d{2})?$/.test(value.time)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["time"], message: "Choose a time of day" });
+    }
+    if (value.frequency === "weekly" && (value.day === null || value.day < 0 || value.day > 6)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["day"], message: "Choose a weekday" });
+    }
+    if (value.frequency === "monthly" && (value.day === null || value.day < 1 || value.day > 31)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["day"], message: "Choose a day of the month" });
+    }
+  });
+
+export type ScheduleFormValue = z.infer<typeof scheduleFormSchema>;
+
+export function scheduleFormValueFromClick(
+  click: Pick<Click, "schedule_frequency" | "schedule_day" | "schedule_time" | "schedule_timezone"> | undefined
+): ScheduleFormValue {
+  return {
+    frequency: click?.schedule_frequency ?? "none",
+    day: click?.schedule_day ?? null,
+    time: click?.schedule_time?.slice(0, 5) ?? "09:00",
+    timeZone: click?.schedule_timezone ?? browserTimeZone(),
+  };
+}
+
+export function scheduleColumnsFromFormValue(value: ScheduleFormValue) {
+  if (value.frequency === "none") {
+    return {
+      schedule_frequency: null,
+      schedule_day: null,
+      schedule_time: null,
+      schedule_timezone: value.timeZone,
+    };
+  }
+
+  return {
+    schedule_frequency: value.frequency,
+    schedule_day: value.frequency === "daily" ? null : value.day,
+    schedule_time: value.time,
+    schedule_timezone: value.timeZone,
+  };
+}
@@ -0,0 +1,12 @@
+import { supabase } from "@/integrations/supabase/client";
+import { removeDevicePushSubscription } from "@/lib/push";
+
+/**
+ * Signs out after forgetting this browser's push subscription, so whoever
+ * signs in here next doesn't get this user's reminders. Failing to forget it
+ * never keeps the user signed in.
+ */
+export async function signOut() {
+  await removeDevicePushSubscription().catch((error) => console.error("Error:", error));
+  return supabase.auth.signOut();
+}
@@ -0,0 +1,90 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const POST_IMAGES_BUCKET = "post-images";
+
+/** How long signed URLs for private photos stay valid, in seconds. */
+export const SIGNED_URL_TTL = 60 * 60;
+
+/**
+ * Uploads a file through a signed upload URL so we can report progress.
+ * supabase-js uploads with fetch, which has no upload progress events.
+ * Returns the object's public-style URL, which is how rows refer to it even
+ * in private buckets.
+ */
+export async function uploadWithProgress(
+  bucket: string,
+  path: string,
+  file: Blob,
+  onProgress: (percent: number) => void
+) {
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUploadUrl(path);
+
+  if (error) throw error;
+
+  const body = new FormData();
+  body.append("cacheControl", "3600");
+  body.append("", file);
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", data.signedUrl);
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(100);
+        resolve();
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Upload failed. Check your connection."));
+    xhr.send(body);
+  });
+
+  const { data: { publicUrl } } = supabase.storage
+    .from(bucket)
+    .getPublicUrl(path);
+
+  return publicUrl;
+}
+
+/** The object path inside `bucket` for one of its public URLs, if it is one. */
+export function storagePathFromPublicUrl(bucket: string, url: string) {
+  const marker = `/storage/v1/object/public/${bucket}/`;
+  const { pathname } = new URL(url);
+  const index = pathname.indexOf(marker);
+  if (index === -1) return null;
+  return decodeURIComponent(pathname.slice(index + marker.length));
+}
+
+const LIST_PAGE_SIZE = 1000;
+
+/** Paths of every file under `folder` in `bucket`, however deeply nested. */
+export async function listFolderFiles(bucket: string, folder: string): Promise<string[]> {
+  const paths: string[] = [];
+
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(folder, { limit: LIST_PAGE_SIZE, offset });
+
+    if (error) throw error;
+
+    for (const item of data) {
+      const path = `${folder}/${item.name}`;
+      // Folders are listed without an id
+      if (item.id) {
+        paths.push(path);
+      } else {
+        paths.push(...(await listFolderFiles(bucket, path)));
+      }
+    }
+    if (data.length < LIST_PAGE_SIZE) return paths;
+  }
+}
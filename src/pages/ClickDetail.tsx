@@ -0,0 +1,209 @@
+import { useMemo } from "react";
+import { Link, Outlet, useNavigate, useParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import AvatarThumbnail from "@/components/AvatarThumbnail";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PostCard } from "@/components/posts/PostCard";
+import { PostCardSkeletons } from "@/components/posts/PostCardSkeletons";
+import { PostComposer } from "@/components/posts/PostComposer";
+import { InviteDialog } from "@/components/clicks/InviteDialog";
+import { MembersList } from "@/components/clicks/MembersList";
+import { NextReminders } from "@/components/clicks/NextReminders";
+import { ReminderBanner } from "@/components/reminders/ReminderBanner";
+import { ReminderGroup } from "@/components/reminders/ReminderGroup";
+import { useClick, useClickMembers } from "@/hooks/use-click";
+import { useClickFeed } from "@/hooks/use-click-feed";
+import { useClickRealtime } from "@/hooks/use-click-realtime";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
+import { useScrollRestoration } from "@/hooks/use-scroll-restoration";
+import { groupFeedByReminder } from "@/lib/feed";
+import { Archive, ArrowUp, Settings, Users } from "lucide-react";
+
+export default function ClickDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const { data: click, isLoading: clickLoading, error: clickError } = useClick(id);
+  const { data: members } = useClickMembers(id);
+  const {
+    data: feed,
+    isLoading: feedLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useClickFeed(id);
+
+  const profilesById = useMemo(
+    () => new Map(members?.map((member) => [member.user_id, member.profile])),
+    [members]
+  );
+  const posts = useMemo(() => feed?.pages.flat() ?? [], [feed]);
+  const feedItems = useMemo(() => groupFeedByReminder(posts), [posts]);
+  const loadMoreRef = useInfiniteScroll({ hasNextPage, isFetchingNextPage, fetchNextPage });
+  const { newPostCount, showNewPosts } = useClickRealtime(id);
+  useScrollRestoration(id && `click-feed:${id}`, posts.length > 0);
+  const isAdmin = members?.some(
+    (member) => member.user_id === user?.id && member.role === "admin"
+  );
+
+  if (clickError) {
+    return (
+      <div className="container mx-auto p-6 text-center">
+        <h1 className="text-2xl font-semibold mb-2">Click not found</h1>
+        <p className="text-muted-foreground mb-4">
+          This Click doesn't exist or you're not a member of it.
+        </p>
+        <Button variant="outline" onClick={() => navigate("/dashboard")}>
+          Go to Dashboard
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-2xl">
+      <div className="mb-8">
+        {clickLoading ? (
+          <>
+            <Skeleton className="h-10 w-[240px] mb-2" />
+            <Skeleton className="h-4 w-[320px]" />
+          </>
+        ) : (
+          <>
+            <div className="flex items-start justify-between gap-4">
+              <h1 className="text-4xl font-bold mb-2">{click?.name}</h1>
+              {isAdmin && click && (
+                <div className="flex gap-2 shrink-0">
+                  <InviteDialog clickId={click.id} />
+                  <Button variant="outline" size="sm" asChild>
+                    <Link to={`/clicks/${click.id}/settings`}>
+                      <Settings className="w-4 h-4 mr-2" />
+                      Settings
+                    </Link>
+                  </Button>
+                </div>
+              )}
+            </div>
+            {click?.description && (
+              <p className="text-muted-foreground">{click.description}</p>
+            )}
+            {click && (
+              <div className="mt-4">
+                <NextReminders click={click} />
+              </div>
+            )}
+          </>
+        )}
+
+        {members && (
+          <div className="flex items-center gap-3 mt-4">
+            <div className="flex -space-x-2">
+              {members.slice(0, 5).map((member) => {
+                const name = member.profile?.full_name || member.profile?.username || "?";
+                return (
+                  <Avatar key={member.user_id} className="w-8 h-8 border-2 border-background">
+                    <AvatarThumbnail src={member.profile?.avatar_url} alt={name} />
+                    <AvatarFallback>{name.charAt(0).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                );
+              })}
+            </div>
+            <span className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Users className="w-4 h-4" />
+              {members.length} {members.length === 1 ? "member" : "members"}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <Tabs defaultValue="posts">
+        <TabsList className="mb-6">
+          <TabsTrigger value="posts">Posts</TabsTrigger>
+          <TabsTrigger value="members">Members</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="posts" className="space-y-6">
+          {click?.archived_at ? (
+            <Alert>
+              <Archive className="h-4 w-4" />
+              <AlertTitle>Archived</AlertTitle>
+              <AlertDescription>
+                This Click is read-only. You can still browse its photos and comments.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <>
+              {click && <ReminderBanner click={click} />}
+              {id && <PostComposer clickId={id} />}
+            </>
+          )}
+
+          {newPostCount > 0 && (
+            <div className="sticky top-16 z-10 flex justify-center">
+              <Button
+                size="sm"
+                className="rounded-full shadow-md"
+                onClick={() => {
+                  showNewPosts();
+                  window.scrollTo({ top: 0, behavior: "smooth" });
+                }}
+              >
+                <ArrowUp className="w-4 h-4 mr-1" />
+                {newPostCount} new {newPostCount === 1 ? "post" : "posts"}
+              </Button>
+            </div>
+          )}
+
+          {feedLoading ? (
+            <PostCardSkeletons />
+          ) : posts.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">
+              No photos yet. Be the first to share something!
+            </p>
+          ) : (
+            feedItems.map((item) =>
+              item.kind === "reminder" ? (
+                <ReminderGroup
+                  key={`reminder-${item.reminder.id}`}
+                  reminder={item.reminder}
+                  posts={item.posts}
+                  profilesById={profilesById}
+                  canModerate={isAdmin}
+                />
+              ) : (
+                <PostCard
+                  key={item.post.id}
+                  post={item.post}
+                  author={profilesById.get(item.post.user_id) ?? null}
+                  canModerate={isAdmin}
+                />
+              )
+            )
+          )}
+
+          {isFetchingNextPage && <PostCardSkeletons count={1} />}
+          {hasNextPage && <div ref={loadMoreRef} aria-hidden="true" />}
+        </TabsContent>
+
+        <TabsContent value="members">
+          {click && members ? (
+            <MembersList click={click} members={members} />
+          ) : (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      {/* The photo lightbox route opens on top of the feed */}
+      <Outlet />
+    </div>
+  );
+}
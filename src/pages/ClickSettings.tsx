@@ -0,0 +1,66 @@
+import { Link, useParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ClickSettingsForm } from "@/components/clicks/ClickSettingsForm";
+import { ClickDangerZone } from "@/components/clicks/ClickDangerZone";
+import { useClick, useClickMembers } from "@/hooks/use-click";
+import { ArrowLeft } from "lucide-react";
+
+export default function ClickSettings() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+
+  const { data: click, isLoading: clickLoading, error: clickError } = useClick(id);
+  const { data: members, isLoading: membersLoading } = useClickMembers(id);
+  const isAdmin = members?.some(
+    (member) => member.user_id === user?.id && member.role === "admin"
+  );
+
+  if (clickLoading || membersLoading) {
+    return (
+      <div className="container mx-auto p-6 max-w-2xl space-y-6">
+        <Skeleton className="h-10 w-[240px]" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (clickError || !click || !isAdmin) {
+    return (
+      <div className="container mx-auto p-6 text-center">
+        <h1 className="text-2xl font-semibold mb-2">Settings unavailable</h1>
+        <p className="text-muted-foreground mb-4">
+          Only admins of this Click can change its settings.
+        </p>
+        <Button variant="outline" asChild>
+          <Link to={click ? `/clicks/${click.id}` : "/dashboard"}>
+            {click ? "Back to Click" : "Go to Dashboard"}
+          </Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-2xl">
+      <Link
+        to={`/clicks/${click.id}`}
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        {click.name}
+      </Link>
+      <h1 className="text-4xl font-bold mb-8">Settings</h1>
+
+      <section className="space-y-4">
+        <ClickSettingsForm click={click} />
+      </section>
+
+      <section className="mt-10 rounded-lg border border-destructive/50 p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-destructive">Danger zone</h2>
+        <ClickDangerZone click={click} />
+      </section>
+    </div>
+  );
+}
@@ -2,32 +2,40 @@
 import { useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { CreateClickDialog } from "@/components/clicks/CreateClickDialog";
+import { ClickCard } from "@/components/clicks/ClickCard";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Users } from "lucide-react";
-import type { Click } from "@/types/click";
+import { useMyClicks } from "@/hooks/use-my-clicks";
+
+function ClickCardSkeletons() {
+  return (
+    <>
+      {Array.from({ length: 3 }).map((_, i) => (
+        <Card key={i}>
+          <CardHeader>
+            <Skeleton className="h-4 w-[200px]" />
+            <Skeleton className="h-3 w-[160px]" />
+          </CardHeader>
+          <CardContent>
+            <Skeleton className="h-20 w-full" />
+          </CardContent>
+        </Card>
+      ))}
+    </>
+  );
+}
 
 export default function Dashboard() {
   const { user } = useAuth();
   const navigate = useNavigate();
 
-  const { data: clicks, isLoading } = useQuery({
-    queryKey: ["clicks", user?.id],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("clicks")
-        .select("*")
-        .eq('created_by', user?.id)
-        .order("created_at", { ascending: false });
+  const { data: clicks, isLoading } = useMyClicks();
 
-      if (error) throw error;
-      return data as Click[];
-    },
-    enabled: !!user,
-  });
+  const activeClicks = clicks?.filter((click) => !click.archived_at) ?? [];
+  const archivedClicks = clicks?.filter((click) => click.archived_at) ?? [];
+  const ownedClicks = activeClicks.filter((click) => click.created_by === user?.id);
+  const joinedClicks = activeClicks.filter((click) => click.created_by !== user?.id);
 
   // If they're not logged in, redirect to auth
   useEffect(() => {
@@ -48,51 +56,53 @@ export default function Dashboard() {
         </p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {/* Only show create button if user is authenticated */}
-        {user && (
-          <Card className="border-dashed">
-            <CardContent className="pt-6">
-              <CreateClickDialog />
-            </CardContent>
-          </Card>
-        )}
-
-        {isLoading ? (
-          Array.from({ length: 3 }).map((_, i) => (
-            <Card key={i}>
-              <CardHeader>
-                <Skeleton className="h-4 w-[200px]" />
-                <Skeleton className="h-3 w-[160px]" />
-              </CardHeader>
-              <CardContent>
-                <Skeleton className="h-20 w-full" />
+      <section className="mb-10">
+        <h2 className="text-2xl font-semibold mb-4">Owned</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {/* Only show create button if user is authenticated */}
+          {user && (
+            <Card className="border-dashed">
+              <CardContent className="pt-6">
+                <CreateClickDialog />
               </CardContent>
             </Card>
-          ))
+          )}
+
+          {isLoading ? (
+            <ClickCardSkeletons />
+          ) : (
+            ownedClicks.map((click) => <ClickCard key={click.id} click={click} />)
+          )}
+        </div>
+      </section>
+
+      <section>
+        <h2 className="text-2xl font-semibold mb-4">Joined</h2>
+        {!isLoading && joinedClicks.length === 0 ? (
+          <p className="text-muted-foreground">
+            You haven't joined anyone else's Clicks yet.
+          </p>
         ) : (
-          clicks?.map((click) => (
-            <Card
-              key={click.id}
-              className="cursor-pointer hover:shadow-md transition-shadow"
-              onClick={() => navigate(`/clicks/${click.id}`)}
-            >
-              <CardHeader>
-                <CardTitle>{click.name}</CardTitle>
-                <CardDescription className="flex items-center gap-1">
-                  <Users className="w-4 h-4" />
-                  {click.description}
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <p className="text-sm text-muted-foreground">
-                  Created {new Date(click.created_at).toLocaleDateString()}
-                </p>
-              </CardContent>
-            </Card>
-          ))
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {isLoading ? (
+              <ClickCardSkeletons />
+            ) : (
+              joinedClicks.map((click) => <ClickCard key={click.id} click={click} />)
+            )}
+          </div>
         )}
-      </div>
+      </section>
+
+      {archivedClicks.length > 0 && (
+        <section className="mt-10">
+          <h2 className="text-2xl font-semibold mb-4">Archived</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 opacity-75">
+            {archivedClicks.map((click) => (
+              <ClickCard key={click.id} click={click} />
+            ))}
+          </div>
+        </section>
+      )}
     </div>
   );
 }
@@ -0,0 +1,117 @@
+import { useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FriendRow } from "@/components/friends/FriendRow";
+import { useFriendships, useProfileSearch } from "@/hooks/use-friends";
+import { Search } from "lucide-react";
+import type { FriendRelationship, FriendshipWithProfile } from "@/types/friend";
+
+const TABS: { value: string; label: string; relationship: FriendRelationship; empty: string }[] = [
+  { value: "friends", label: "Friends", relationship: "friends", empty: "No friends yet. Search for someone to add." },
+  { value: "incoming", label: "Incoming", relationship: "incoming", empty: "No pending requests." },
+  { value: "outgoing", label: "Outgoing", relationship: "outgoing", empty: "You haven't sent any requests." },
+  { value: "blocked", label: "Blocked", relationship: "blocked", empty: "You haven't blocked anyone." },
+];
+
+function FriendList({ friendships, empty }: { friendships: FriendshipWithProfile[]; empty: string }) {
+  if (friendships.length === 0) {
+    return <p className="py-8 text-center text-muted-foreground">{empty}</p>;
+  }
+
+  return (
+    <ul className="divide-y">
+      {friendships.map((friendship) => (
+        <FriendRow
+          key={friendship.other_id}
+          profile={friendship.profile}
+          otherId={friendship.other_id}
+          friendship={friendship}
+        />
+      ))}
+    </ul>
+  );
+}
+
+export default function Friends() {
+  const [search, setSearch] = useState("");
+  const { data: friendships, isLoading } = useFriendships();
+  const { data: searchResults, isFetching: searching } = useProfileSearch(search);
+
+  const friendshipsByUser = useMemo(
+    () => new Map(friendships?.map((friendship) => [friendship.other_id, friendship])),
+    [friendships]
+  );
+  const incomingCount = friendships?.filter((f) => f.relationship === "incoming").length ?? 0;
+
+  return (
+    <div className="container mx-auto p-6 max-w-2xl">
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold mb-2">Friends</h1>
+        <p className="text-muted-foreground">
+          Find people by username and manage your friend requests.
+        </p>
+      </div>
+
+      <div className="relative mb-6">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by username"
+          className="pl-9"
+        />
+      </div>
+
+      {search.trim().length >= 2 ? (
+        searching && !searchResults ? (
+          <Skeleton className="h-16 w-full" />
+        ) : searchResults?.length === 0 ? (
+          <p className="py-8 text-center text-muted-foreground">No one matches "{search.trim()}".</p>
+        ) : (
+          <ul className="divide-y">
+            {searchResults
+              ?.filter((profile) => friendshipsByUser.get(profile.id)?.relationship !== "blocked_by")
+              .map((profile) => (
+                <FriendRow
+                  key={profile.id}
+                  profile={profile}
+                  otherId={profile.id}
+                  friendship={friendshipsByUser.get(profile.id)}
+                />
+              ))}
+          </ul>
+        )
+      ) : (
+        <Tabs defaultValue="friends">
+          <TabsList>
+            {TABS.map((tab) => (
+              <TabsTrigger key={tab.value} value={tab.value} className="gap-2">
+                {tab.label}
+                {tab.value === "incoming" && incomingCount > 0 && (
+                  <Badge className="px-1.5 py-0">{incomingCount}</Badge>
+                )}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {TABS.map((tab) => (
+            <TabsContent key={tab.value} value={tab.value}>
+              {isLoading ? (
+                <div className="space-y-2 pt-2">
+                  <Skeleton className="h-12 w-full" />
+                  <Skeleton className="h-12 w-full" />
+                </div>
+              ) : (
+                <FriendList
+                  friendships={friendships?.filter((f) => f.relationship === tab.relationship) ?? []}
+                  empty={tab.empty}
+                />
+              )}
+            </TabsContent>
+          ))}
+        </Tabs>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,25 @@
 
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { consumeReturnTo } from "@/lib/return-to";
+import { needsMfaChallenge } from "@/lib/mfa";
 import AuthPanel from "@/components/AuthPanel";
+import { MfaChallenge } from "@/components/auth/MfaChallenge";
 
 const Index = () => {
+  const { user, assurance } = useAuth();
+  const challengeRequired = needsMfaChallenge(assurance);
+  const navigate = useNavigate();
+
+  // Covers every way of signing in: the panel below, OAuth and magic links
+  // all end up here with a session. Accounts with 2FA wait for the challenge.
+  useEffect(() => {
+    if (user && !challengeRequired) {
+      navigate(consumeReturnTo(), { replace: true });
+    }
+  }, [user, challengeRequired, navigate]);
+
   return (
     <div className="min-h-screen w-full bg-auth-pattern flex flex-col items-center justify-center p-6">
       <div className="w-full max-w-md">
@@ -13,7 +31,7 @@ const Index = () => {
             Sign in to start your experience
           </p>
         </div>
-        <AuthPanel />
+        {challengeRequired ? <MfaChallenge /> : <AuthPanel />}
       </div>
     </div>
   );
@@ -0,0 +1,117 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useAcceptInvite, useInvitePreview } from "@/hooks/use-invites";
+import { needsMfaChallenge } from "@/lib/mfa";
+import { saveReturnTo } from "@/lib/return-to";
+import { Users } from "lucide-react";
+
+const buttonClassName =
+  "w-full px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary-hover transition-colors duration-200 disabled:opacity-50";
+
+const JoinClick = () => {
+  const { code } = useParams<{ code: string }>();
+  const { user, assurance } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { data: preview, isLoading } = useInvitePreview(code);
+  const acceptInvite = useAcceptInvite();
+
+  const signedIn = !!user && !needsMfaChallenge(assurance);
+
+  const handleSignIn = () => {
+    // Index brings the visitor back here once they're signed in
+    saveReturnTo(`/join/${code}`);
+    navigate("/");
+  };
+
+  const handleJoin = async () => {
+    try {
+      const clickId = await acceptInvite.mutateAsync(code!);
+      toast({
+        title: "Welcome!",
+        description: `You've joined ${preview?.click_name}.`,
+      });
+      navigate(`/clicks/${clickId}`, { replace: true });
+    } catch (error) {
+      console.error("Error:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to join Click",
+      });
+    }
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <p className="text-sm text-gray-600 text-center">Loading invite...</p>;
+    }
+
+    if (!preview || (!preview.is_valid && !preview.is_member)) {
+      return (
+        <div className="text-center space-y-4">
+          <h1 className="text-2xl font-semibold text-gray-900">Invite not available</h1>
+          <p className="text-sm text-gray-600">
+            This invite link is invalid, has expired or has been revoked. Ask the person who sent
+            it for a new one.
+          </p>
+          <Link to={signedIn ? "/dashboard" : "/"} className="text-primary hover:underline font-medium">
+            {signedIn ? "Go to Dashboard" : "Back to sign in"}
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="text-center space-y-2">
+          <p className="text-sm text-gray-600">You've been invited to join</p>
+          <h1 className="text-2xl font-semibold text-gray-900">{preview.click_name}</h1>
+          {preview.click_description && (
+            <p className="text-sm text-gray-600">{preview.click_description}</p>
+          )}
+          <p className="flex items-center justify-center gap-1 text-sm text-gray-600">
+            <Users className="w-4 h-4" />
+            {preview.member_count} {preview.member_count === 1 ? "member" : "members"}
+          </p>
+        </div>
+
+        {!signedIn ? (
+          <button type="button" onClick={handleSignIn} className={buttonClassName}>
+            Sign in to join
+          </button>
+        ) : preview.is_member ? (
+          <button
+            type="button"
+            onClick={() => navigate(`/clicks/${preview.click_id}`, { replace: true })}
+            className={buttonClassName}
+          >
+            You're already a member. Open Click
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleJoin}
+            disabled={acceptInvite.isPending}
+            className={buttonClassName}
+          >
+            {acceptInvite.isPending
+              ? "Joining..."
+              : preview.role === "admin"
+                ? "Join as admin"
+                : "Join Click"}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-auth-pattern flex flex-col items-center justify-center p-6">
+      <div className="glass-panel p-8 w-full max-w-md mx-auto animate-fade-in">{renderBody()}</div>
+    </div>
+  );
+};
+
+export default JoinClick;
@@ -0,0 +1,86 @@
+import { useCallback, useEffect } from "react";
+import { useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { PhotoLightbox, type LightboxLinkState } from "@/components/posts/PhotoLightbox";
+import { PostCard } from "@/components/posts/PostCard";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useClickMembers } from "@/hooks/use-click";
+import { usePost } from "@/hooks/use-post";
+
+/**
+ * Opens a post's photos over its Click, at `/clicks/:id/posts/:postId?img=2`.
+ * `img` is 1-based so shared links read naturally. `?view=post` (used by
+ * notifications) and posts without photos show the whole post instead.
+ */
+export default function PostPhotos() {
+  const { id, postId } = useParams<{ id: string; postId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { data: post, error } = usePost(id, postId);
+  const { data: members } = useClickMembers(id);
+  const state = location.state as LightboxLinkState | null;
+
+  const images = post?.images ?? [];
+  const requested = Number(searchParams.get("img")) || 1;
+  const index = Math.min(Math.max(requested, 1), Math.max(images.length, 1)) - 1;
+
+  const close = useCallback(() => {
+    if (state?.fromFeed) {
+      navigate(-1);
+    } else {
+      navigate(`/clicks/${id}`, { replace: true });
+    }
+  }, [state, navigate, id]);
+
+  // Swiping updates the URL in place, so back closes the lightbox rather than
+  // stepping through every photo
+  const handleIndexChange = useCallback(
+    (next: number) => {
+      setSearchParams({ img: String(next + 1) }, { replace: true, state });
+    },
+    [setSearchParams, state]
+  );
+
+  const unavailable = !!error;
+
+  useEffect(() => {
+    if (!unavailable) return;
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: "This post doesn't exist or you can't see it.",
+    });
+    close();
+  }, [unavailable, toast, close]);
+
+  if (!post || unavailable) return null;
+
+  if (searchParams.get("view") === "post" || images.length === 0) {
+    const author = members?.find((member) => member.user_id === post.user_id)?.profile ?? null;
+    const isAdmin = members?.some(
+      (member) => member.user_id === user?.id && member.role === "admin"
+    );
+    return (
+      <Dialog open onOpenChange={(open) => !open && close()}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto pt-12">
+          <DialogTitle className="sr-only">Post</DialogTitle>
+          <PostCard post={post} author={author} canModerate={isAdmin} defaultShowComments />
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  return (
+    <PhotoLightbox
+      images={images}
+      index={index}
+      onIndexChange={handleIndexChange}
+      onClose={close}
+      caption={post.content}
+    />
+  );
+}
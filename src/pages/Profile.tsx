@@ -1,5 +1,4 @@
 import { useState, useRef } from "react";
-import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -7,8 +6,12 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/components/ui/use-toast";
 import { Pencil, User, Upload, Twitter, Github, Linkedin } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { z } from "zod";
+import { AVATAR_IMAGE_OPTIONS, processImage, thumbnailPath } from "@/lib/image-processing";
+import { ChangePasswordForm } from "@/components/profile/ChangePasswordForm";
+import { TwoFactorSettings } from "@/components/profile/TwoFactorSettings";
+import { PushReminderSettings } from "@/components/profile/PushReminderSettings";
 import type { ProfileFormData } from "@/types/profile";
 
 interface DatabaseProfile {
@@ -43,8 +46,8 @@ const profileSchema = z.object({
 
 const Profile = () => {
   const { user } = useAuth();
-  const navigate = useNavigate();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [isEditing, setIsEditing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploading, setUploading] = useState(false);
@@ -61,7 +64,7 @@ const Profile = () => {
     }
   });
 
-  const { data: profile, isLoading, refetch } = useQuery({
+  const { data: profile, isLoading } = useQuery({
     queryKey: ["profile", user?.id],
     queryFn: async () => {
       const { data, error } = await supabase
@@ -100,15 +103,24 @@ const Profile = () => {
       }
 
       const file = event.target.files[0];
-      const fileExt = file.name.split(".").pop();
-      const filePath = `${user?.id}/${crypto.randomUUID()}.${fileExt}`;
+      const { image, thumbnail, extension } = await processImage(file, AVATAR_IMAGE_OPTIONS);
+      const filePath = `${user?.id}/${crypto.randomUUID()}.${extension}`;
 
       const { error: uploadError } = await supabase.storage
         .from("avatars")
-        .upload(filePath, file);
+        .upload(filePath, image);
 
       if (uploadError) throw uploadError;
 
+      const { error: thumbnailError } = await supabase.storage
+        .from("avatars")
+        .upload(thumbnailPath(filePath), thumbnail);
+
+      if (thumbnailError) {
+        await supabase.storage.from("avatars").remove([filePath]);
+        throw thumbnailError;
+      }
+
       const { data: { publicUrl } } = supabase.storage
         .from("avatars")
         .getPublicUrl(filePath);
@@ -124,13 +136,13 @@ const Profile = () => {
         title: "Success",
         description: "Avatar updated successfully",
       });
-      
-      refetch();
+
+      queryClient.invalidateQueries({ queryKey: ["profile", user?.id] });
     } catch (error) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Error uploading avatar.",
+        description: error instanceof Error ? error.message : "Error uploading avatar.",
       });
     } finally {
       setUploading(false);
@@ -152,6 +164,7 @@ const Profile = () => {
         title: "Profile updated",
         description: "Your profile has been updated successfully.",
       });
+      queryClient.invalidateQueries({ queryKey: ["profile", user?.id] });
       setIsEditing(false);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -185,12 +198,6 @@ const Profile = () => {
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-2xl font-semibold">Profile</h1>
           <div className="space-x-2">
-            <Button
-              variant="outline"
-              onClick={() => navigate('/dashboard')}
-            >
-              Go to Dashboard
-            </Button>
             <Button
               variant="default"
               onClick={() => {
@@ -429,6 +436,21 @@ const Profile = () => {
             </div>
           </div>
         </div>
+
+        <div className="glass-panel p-8 mt-6 space-y-4">
+          <h2 className="text-lg font-semibold">Password</h2>
+          <ChangePasswordForm />
+        </div>
+
+        <div className="glass-panel p-8 mt-6 space-y-4">
+          <h2 className="text-lg font-semibold">Two-factor authentication</h2>
+          <TwoFactorSettings />
+        </div>
+
+        <div className="glass-panel p-8 mt-6 space-y-4">
+          <h2 className="text-lg font-semibold">Notifications</h2>
+          <PushReminderSettings />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { PasswordStrengthMeter } from "@/components/auth/PasswordStrengthMeter";
+import { newPasswordSchema } from "@/lib/password";
+
+const ResetPassword = () => {
+  const { user, isPasswordRecovery, completePasswordRecovery } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = newPasswordSchema.safeParse(password);
+    if (!result.success) {
+      setError(result.error.errors[0].message);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords don't match");
+      return;
+    }
+
+    setError(null);
+    setSubmitting(true);
+    const { error: updateError } = await supabase.auth.updateUser({ password });
+    setSubmitting(false);
+
+    if (updateError) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: updateError.message,
+      });
+      return;
+    }
+
+    completePasswordRecovery();
+    toast({
+      title: "Password updated",
+      description: "You're signed in with your new password.",
+    });
+    navigate('/dashboard');
+  };
+
+  const linkIsValid = !!user && isPasswordRecovery;
+
+  return (
+    <div className="min-h-screen w-full bg-auth-pattern flex flex-col items-center justify-center p-6">
+      <div className="glass-panel p-8 w-full max-w-md mx-auto animate-fade-in">
+        {linkIsValid ? (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="text-center space-y-2">
+              <h1 className="text-2xl font-semibold text-gray-900">Set a new password</h1>
+              <p className="text-sm text-gray-600">Choose a password you haven't used before.</p>
+            </div>
+
+            <div className="space-y-4">
+              <div className="relative">
+                <input
+                  type="password"
+                  id="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="block w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary peer"
+                  placeholder=" "
+                  autoComplete="new-password"
+                  required
+                />
+                <label htmlFor="new-password" className="floating-label peer-focus:text-primary">
+                  New password
+                </label>
+              </div>
+              <PasswordStrengthMeter password={password} />
+
+              <div className="relative">
+                <input
+                  type="password"
+                  id="confirm-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="block w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary peer"
+                  placeholder=" "
+                  autoComplete="new-password"
+                  required
+                />
+                <label htmlFor="confirm-password" className="floating-label peer-focus:text-primary">
+                  Confirm new password
+                </label>
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full px-6 py-3 bg-primary text-white rounded-lg hover:bg-primary-hover transition-colors duration-200 disabled:opacity-50"
+            >
+              {submitting ? "Saving..." : "Update password"}
+            </button>
+          </form>
+        ) : (
+          <div className="text-center space-y-4">
+            <h1 className="text-2xl font-semibold text-gray-900">Link expired</h1>
+            <p className="text-sm text-gray-600">
+              This password reset link is invalid or has expired. Request a new one from the sign-in page.
+            </p>
+            <Link to="/" className="text-primary hover:underline font-medium">
+              Back to sign in
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
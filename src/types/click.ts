@@ -1,3 +1,5 @@
+import type { SignedImage } from "./post";
+import type { Profile } from "./profile";
 
 export type ClickFrequency = 'daily' | 'weekly' | 'monthly';
 
@@ -10,6 +12,9 @@ export interface Click {
   schedule_frequency: ClickFrequency | null;
   schedule_day: number | null;
   schedule_time: string | null;
+  schedule_timezone: string;
+  cover_image_url: string | null;
+  archived_at: string | null;
   updated_at: string;
 }
 
@@ -26,4 +31,18 @@ export interface CreateClickInput {
   schedule_frequency?: ClickFrequency;
   schedule_day?: number;
   schedule_time?: string;
+  schedule_timezone?: string;
 }
+
+export interface ClickMemberWithProfile extends ClickMember {
+  profile: Profile | null;
+}
+
+export interface DashboardClick extends Click {
+  role: ClickMember['role'];
+  member_count: number;
+  /** Signed URLs for `cover_image_url`, which lives in the private bucket. */
+  cover: SignedImage | null;
+}
+
+export type MemberAction = 'promote' | 'demote' | 'remove' | 'transfer';
@@ -0,0 +1,23 @@
+import type { Profile } from "./profile";
+
+export interface Comment {
+  id: string;
+  post_id: string;
+  click_id: string;
+  user_id: string;
+  parent_id: string | null;
+  content: string;
+  created_at: string;
+  updated_at: string;
+  /** Set when the author deleted a comment that still has replies. */
+  deleted_at: string | null;
+}
+
+export interface CommentNode {
+  comment: Comment;
+  author: Profile | null;
+  depth: number;
+  /** Set when the comment was flattened under an ancestor deeper than the cap. */
+  replyingTo: Profile | null;
+  children: CommentNode[];
+}
@@ -0,0 +1,36 @@
+import type { Profile } from "./profile";
+
+export type FriendStatus = 'pending' | 'accepted' | 'declined' | 'blocked';
+
+export type FriendAction =
+  | 'request'
+  | 'accept'
+  | 'decline'
+  | 'cancel'
+  | 'unfriend'
+  | 'block'
+  | 'unblock';
+
+/** A row of the friends table. `user_id` is whoever sent the request or block. */
+export interface Friendship {
+  user_id: string;
+  friend_id: string;
+  status: FriendStatus;
+  created_at: string;
+}
+
+/** How a friendship looks from the signed-in user's side. */
+export type FriendRelationship =
+  | 'none'
+  | 'outgoing'
+  | 'incoming'
+  | 'friends'
+  | 'declined'
+  | 'blocked'
+  | 'blocked_by';
+
+export interface FriendshipWithProfile extends Friendship {
+  other_id: string;
+  relationship: FriendRelationship;
+  profile: Profile | null;
+}
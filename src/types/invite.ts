@@ -0,0 +1,30 @@
+import type { ClickMember } from "./click";
+
+export interface ClickInvite {
+  id: string;
+  click_id: string;
+  code: string;
+  role: ClickMember['role'];
+  created_by: string;
+  expires_at: string | null;
+  max_uses: number | null;
+  use_count: number;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface CreateInviteInput {
+  role: ClickMember['role'];
+  expires_at: string | null;
+  max_uses: number | null;
+}
+
+export interface InvitePreview {
+  click_id: string;
+  click_name: string;
+  click_description: string | null;
+  member_count: number;
+  role: ClickMember['role'];
+  is_valid: boolean;
+  is_member: boolean;
+}
@@ -0,0 +1,41 @@
+import type { Profile } from "./profile";
+
+export type NotificationType =
+  | 'like'
+  | 'comment'
+  | 'reply'
+  | 'friend_request'
+  | 'friend_accepted'
+  | 'member_joined';
+
+/** A row of the notifications table. `user_id` is the recipient, `actor_id` who caused it. */
+export interface Notification {
+  id: string;
+  user_id: string;
+  actor_id: string;
+  type: NotificationType;
+  click_id: string | null;
+  post_id: string | null;
+  comment_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationWithActor extends Notification {
+  actor: Profile | null;
+  click_name: string | null;
+}
+
+/** Notifications about the same thing, shown as a single item. */
+export interface NotificationGroup {
+  key: string;
+  type: NotificationType;
+  notifications: NotificationWithActor[];
+  /** Distinct actors, most recent first. */
+  actors: Profile[];
+  click_id: string | null;
+  click_name: string | null;
+  post_id: string | null;
+  latest_at: string;
+  unread: boolean;
+}
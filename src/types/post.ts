@@ -0,0 +1,44 @@
+import type { Reminder } from "./reminder";
+
+export interface Post {
+  id: string;
+  click_id: string;
+  user_id: string;
+  content: string | null;
+  is_reminder_post: boolean | null;
+  reminder_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PostImage {
+  id: string;
+  post_id: string;
+  image_url: string;
+  order: number;
+  created_at: string;
+}
+
+/** Short-lived URLs that load a photo from the private bucket. */
+export interface SignedImage {
+  url: string;
+  thumbnailUrl: string;
+}
+
+/** `image_url` identifies the photo; `signed` is what to display. */
+export interface FeedPostImage extends PostImage {
+  signed: SignedImage | null;
+}
+
+export interface FeedPost extends Post {
+  images: FeedPostImage[];
+  like_count: number;
+  liked_by_me: boolean;
+  comment_count: number;
+  reminder: Reminder | null;
+}
+
+/** A photo in the post editor: one already saved, or a file picked just now. */
+export type EditablePostImage =
+  | { kind: 'existing'; id: string; image: FeedPostImage }
+  | { kind: 'new'; id: string; file: File; previewUrl: string };
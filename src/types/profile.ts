@@ -11,3 +11,10 @@ export interface ProfileFormData {
     linkedin: string;
   };
 }
+
+export interface Profile {
+  id: string;
+  username: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+}
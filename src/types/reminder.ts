@@ -0,0 +1,7 @@
+export interface Reminder {
+  id: string;
+  click_id: string;
+  scheduled_for: string;
+  prompt: string;
+  created_at: string;
+}
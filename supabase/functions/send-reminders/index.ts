@@ -0,0 +1,167 @@
+// Pushes each Click's reminder to its opted-in members once its scheduled
+// time arrives. pg_cron calls this every minute with the service role key.
+//
+// Secrets: VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT (a mailto:
+// or https: contact for push services). See the README for local testing.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import webpush from "npm:web-push@3.6.7";
+import { getPreviousOccurrence, scheduleFromClick } from "../../../src/lib/occurrences.ts";
+
+/** Occurrences older than this are skipped, so a late run doesn't send stale nudges. */
+const SEND_WINDOW_MS = 10 * 60 * 1000;
+
+/** How long push services keep trying to deliver a reminder, in seconds. */
+const PUSH_TTL = 60 * 60;
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+);
+
+webpush.setVapidDetails(
+  Deno.env.get("VAPID_SUBJECT")!,
+  Deno.env.get("VAPID_PUBLIC_KEY")!,
+  Deno.env.get("VAPID_PRIVATE_KEY")!
+);
+
+interface DueReminder {
+  id: string;
+  prompt: string;
+  click: { id: string; name: string };
+}
+
+/**
+ * Creates the reminder row if no member has opened the Click yet, then marks
+ * it sent. Only the run whose update matches the unsent row gets it back.
+ */
+async function claimReminder(click: { id: string; name: string }, scheduledFor: Date) {
+  const scheduled_for = scheduledFor.toISOString();
+
+  const { error: ensureError } = await supabase.rpc("ensure_reminder", {
+    target_click_id: click.id,
+    reminder_scheduled_for: scheduled_for,
+  });
+  if (ensureError) throw ensureError;
+
+  const { data, error } = await supabase
+    .from("reminders")
+    .update({ push_sent_at: new Date().toISOString() })
+    .eq("click_id", click.id)
+    .eq("scheduled_for", scheduled_for)
+    .is("push_sent_at", null)
+    .select("id, prompt")
+    .maybeSingle();
+  if (error) throw error;
+
+  return data && ({ ...data, click } as DueReminder);
+}
+
+async function findDueReminders(now: Date) {
+  const { data: clicks, error } = await supabase
+    .from("clicks")
+    .select(
+      "id, name, schedule_frequency, schedule_day, schedule_time, schedule_timezone, archived_at"
+    )
+    .not("schedule_frequency", "is", null)
+    .is("archived_at", null);
+  if (error) throw error;
+
+  const due: DueReminder[] = [];
+  for (const click of clicks) {
+    // One Click with bad data mustn't hold up everyone else's reminders
+    try {
+      const schedule = scheduleFromClick(click);
+      const scheduledFor = schedule && getPreviousOccurrence(schedule, now);
+      if (!scheduledFor || now.getTime() - scheduledFor.getTime() > SEND_WINDOW_MS) continue;
+
+      const reminder = await claimReminder(click, scheduledFor);
+      if (reminder) due.push(reminder);
+    } catch (error) {
+      console.error("Error:", click.id, error);
+    }
+  }
+  return due;
+}
+
+async function subscriptionsFor(clickId: string) {
+  const { data: members, error: membersError } = await supabase
+    .from("click_members")
+    .select("user_id")
+    .eq("click_id", clickId);
+  if (membersError) throw membersError;
+
+  const { data: optedIn, error: preferencesError } = await supabase
+    .from("notification_preferences")
+    .select("user_id")
+    .eq("reminder_push", true)
+    .in("user_id", members.map((member) => member.user_id));
+  if (preferencesError) throw preferencesError;
+
+  const { data: subscriptions, error } = await supabase
+    .from("push_subscriptions")
+    .select("id, endpoint, p256dh, auth")
+    .in("user_id", optedIn.map((preference) => preference.user_id));
+  if (error) throw error;
+
+  return subscriptions;
+}
+
+async function sendReminder(reminder: DueReminder) {
+  const payload = JSON.stringify({
+    title: reminder.click.name,
+    body: reminder.prompt,
+    url: `/clicks/${reminder.click.id}`,
+    tag: `reminder:${reminder.id}`,
+  });
+
+  let sent = 0;
+  const expired: string[] = [];
+
+  for (const subscription of await subscriptionsFor(reminder.click.id)) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        { TTL: PUSH_TTL }
+      );
+      sent++;
+    } catch (error) {
+      // The browser unsubscribed or the user cleared site data
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode === 404 || statusCode === 410) {
+        expired.push(subscription.id);
+      } else {
+        console.error("Error:", error);
+      }
+    }
+  }
+
+  if (expired.length > 0) {
+    const { error } = await supabase.from("push_subscriptions").delete().in("id", expired);
+    if (error) console.error("Error:", error);
+  }
+
+  return { sent, expired: expired.length };
+}
+
+Deno.serve(async () => {
+  try {
+    const reminders = await findDueReminders(new Date());
+    const results = [];
+    for (const reminder of reminders) {
+      try {
+        results.push({ reminder_id: reminder.id, ...(await sendReminder(reminder)) });
+      } catch (error) {
+        console.error("Error:", reminder.id, error);
+        results.push({ reminder_id: reminder.id, error: String(error) });
+      }
+    }
+    return Response.json({ reminders: results });
+  } catch (error) {
+    console.error("Error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to send reminders" },
+      { status: 500 }
+    );
+  }
+});
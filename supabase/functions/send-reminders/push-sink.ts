@@ -0,0 +1,23 @@
+// A stand-in push service for testing send-reminders locally. Point a
+// push_subscriptions row's endpoint at it and it logs what would have been
+// delivered instead of forwarding it to a browser.
+//
+//   deno run --allow-net supabase/functions/send-reminders/push-sink.ts
+
+const PORT = 8787;
+
+Deno.serve({ port: PORT }, async (request) => {
+  const body = new Uint8Array(await request.arrayBuffer());
+
+  console.log(`${request.method} ${new URL(request.url).pathname}`, {
+    authorization: request.headers.get("authorization"),
+    ttl: request.headers.get("ttl"),
+    encoding: request.headers.get("content-encoding"),
+    bytes: body.length,
+  });
+
+  // Push services answer 201 Created for an accepted message. A path ending in
+  // /gone answers 410 instead, to check expired subscriptions get removed.
+  const gone = request.url.endsWith("/gone");
+  return new Response(null, { status: gone ? 410 : 201 });
+});
@@ -0,0 +1,18 @@
+-- Public bucket for post photos, laid out as <click_id>/<post_id>/<file>
+insert into storage.buckets (id, name, public)
+values ('post-images', 'post-images', true)
+on conflict (id) do nothing;
+
+create policy "Click members can upload post images"
+on storage.objects for insert
+to authenticated
+with check (
+  bucket_id = 'post-images'
+  and (storage.foldername(name))[1]::uuid in (
+    select click_id from public.click_members where user_id = auth.uid()
+  )
+);
+
+create policy "Anyone can view post images"
+on storage.objects for select
+using (bucket_id = 'post-images');
@@ -0,0 +1,41 @@
+create type public.friend_status as enum ('pending', 'accepted', 'declined', 'blocked');
+
+update public.friends
+set status = 'pending'
+where status is null or status not in ('pending', 'accepted', 'declined', 'blocked');
+
+alter table public.friends
+  alter column status drop default,
+  alter column status type public.friend_status using status::public.friend_status,
+  alter column status set default 'pending',
+  alter column status set not null;
+
+-- Earlier requests could go both ways; keep the most settled row of each pair
+delete from public.friends
+where ctid in (
+  select ctid
+  from (
+    select
+      ctid,
+      row_number() over (
+        partition by least(user_id, friend_id), greatest(user_id, friend_id)
+        order by
+          case status
+            when 'blocked' then 0
+            when 'accepted' then 1
+            when 'pending' then 2
+            else 3
+          end,
+          created_at
+      ) as rank
+    from public.friends
+  ) ranked
+  where rank > 1
+);
+
+-- One row per pair of users, whichever direction the request went
+create unique index friends_pair_key
+  on public.friends (least(user_id, friend_id), greatest(user_id, friend_id));
+
+create index profiles_username_search_idx
+  on public.profiles (lower(username) text_pattern_ops);
@@ -0,0 +1,3 @@
+-- schedule_time is a wall-clock time, so it needs a zone to mean anything
+alter table public.clicks
+  add column schedule_timezone text not null default 'UTC';
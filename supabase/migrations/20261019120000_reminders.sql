@@ -0,0 +1,31 @@
+-- One row per scheduled prompt of a Click; posts answer it through reminder_id
+create table public.reminders (
+  id uuid primary key default gen_random_uuid(),
+  click_id uuid not null references public.clicks (id) on delete cascade,
+  scheduled_for timestamptz not null,
+  prompt text not null,
+  created_at timestamptz not null default now(),
+  unique (click_id, scheduled_for)
+);
+
+alter table public.reminders enable row level security;
+
+create policy "Click members can view reminders"
+on public.reminders for select
+to authenticated
+using (
+  click_id in (select click_id from public.click_members where user_id = auth.uid())
+);
+
+create policy "Click members can create reminders"
+on public.reminders for insert
+to authenticated
+with check (
+  click_id in (select click_id from public.click_members where user_id = auth.uid())
+);
+
+alter table public.posts
+  add constraint posts_reminder_id_fkey
+  foreign key (reminder_id) references public.reminders (id) on delete set null;
+
+create index posts_reminder_id_idx on public.posts (reminder_id);
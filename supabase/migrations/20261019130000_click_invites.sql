@@ -0,0 +1,127 @@
+-- Shareable invite codes. Anyone holding a live code can join the Click with
+-- the invite's role; admins create and revoke them.
+create table public.click_invites (
+  id uuid primary key default gen_random_uuid(),
+  click_id uuid not null references public.clicks (id) on delete cascade,
+  code text not null unique default substr(replace(gen_random_uuid()::text, '-', ''), 1, 10),
+  role text not null default 'member' check (role in ('admin', 'member')),
+  created_by uuid not null references auth.users (id) on delete cascade,
+  expires_at timestamptz,
+  max_uses integer check (max_uses is null or max_uses > 0),
+  use_count integer not null default 0,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index click_invites_click_id_idx on public.click_invites (click_id);
+
+alter table public.click_invites enable row level security;
+
+create policy "Click admins can view invites"
+on public.click_invites for select
+to authenticated
+using (
+  click_id in (
+    select click_id from public.click_members
+    where user_id = auth.uid() and role = 'admin'
+  )
+);
+
+create policy "Click admins can create invites"
+on public.click_invites for insert
+to authenticated
+with check (
+  created_by = auth.uid()
+  and click_id in (
+    select click_id from public.click_members
+    where user_id = auth.uid() and role = 'admin'
+  )
+);
+
+create policy "Click admins can revoke invites"
+on public.click_invites for update
+to authenticated
+using (
+  click_id in (
+    select click_id from public.click_members
+    where user_id = auth.uid() and role = 'admin'
+  )
+);
+
+-- Visitors can't read clicks or click_invites, so the join page goes through
+-- these two functions instead.
+create function public.get_invite_preview(invite_code text)
+returns table (
+  click_id uuid,
+  click_name text,
+  click_description text,
+  member_count bigint,
+  role text,
+  is_valid boolean,
+  is_member boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    c.id,
+    c.name,
+    c.description,
+    (select count(*) from public.click_members m where m.click_id = c.id),
+    i.role,
+    i.revoked_at is null
+      and (i.expires_at is null or i.expires_at > now())
+      and (i.max_uses is null or i.use_count < i.max_uses),
+    exists (
+      select 1 from public.click_members m
+      where m.click_id = c.id and m.user_id = auth.uid()
+    )
+  from public.click_invites i
+  join public.clicks c on c.id = i.click_id
+  where i.code = invite_code;
+$$;
+
+create function public.accept_invite(invite_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.click_invites;
+begin
+  if auth.uid() is null then
+    raise exception 'You need to sign in to join a Click';
+  end if;
+
+  select * into invite from public.click_invites where code = invite_code for update;
+
+  if invite.id is null
+    or invite.revoked_at is not null
+    or (invite.expires_at is not null and invite.expires_at <= now())
+    or (invite.max_uses is not null and invite.use_count >= invite.max_uses)
+  then
+    raise exception 'This invite link is invalid or has expired';
+  end if;
+
+  -- Existing members keep their role and don't use up the invite
+  if exists (
+    select 1 from public.click_members
+    where click_id = invite.click_id and user_id = auth.uid()
+  ) then
+    return invite.click_id;
+  end if;
+
+  insert into public.click_members (click_id, user_id, role)
+  values (invite.click_id, auth.uid(), invite.role);
+
+  update public.click_invites set use_count = use_count + 1 where id = invite.id;
+
+  return invite.click_id;
+end;
+$$;
+
+grant execute on function public.get_invite_preview(text) to anon, authenticated;
+grant execute on function public.accept_invite(text) to authenticated;
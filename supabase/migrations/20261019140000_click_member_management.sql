@@ -0,0 +1,126 @@
+-- Membership changes go through these functions so the rules hold no matter
+-- which client makes them: only admins manage others, the owner (created_by)
+-- is always an admin, and a Click never ends up without an admin.
+
+create function public.is_click_admin(target_click_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.click_members
+    where click_id = target_click_id and user_id = auth.uid() and role = 'admin'
+  );
+$$;
+
+create function public.set_member_role(target_click_id uuid, member_id uuid, new_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new_role not in ('admin', 'member') then
+    raise exception 'Unknown role %', new_role;
+  end if;
+  if not public.is_click_admin(target_click_id) then
+    raise exception 'Only admins can change roles';
+  end if;
+  if new_role = 'member' and exists (
+    select 1 from public.clicks where id = target_click_id and created_by = member_id
+  ) then
+    raise exception 'The owner is always an admin. Transfer ownership first';
+  end if;
+
+  update public.click_members
+  set role = new_role
+  where click_id = target_click_id and user_id = member_id;
+
+  if not found then
+    raise exception 'That person is not a member of this Click';
+  end if;
+end;
+$$;
+
+create function public.remove_member(target_click_id uuid, member_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if member_id = auth.uid() then
+    raise exception 'Use leave to remove yourself';
+  end if;
+  if not public.is_click_admin(target_click_id) then
+    raise exception 'Only admins can remove members';
+  end if;
+  if exists (
+    select 1 from public.clicks where id = target_click_id and created_by = member_id
+  ) then
+    raise exception 'The owner can''t be removed';
+  end if;
+
+  delete from public.click_members
+  where click_id = target_click_id and user_id = member_id;
+end;
+$$;
+
+create function public.leave_click(target_click_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1 from public.clicks where id = target_click_id and created_by = auth.uid()
+  ) then
+    raise exception 'Transfer ownership to another member before leaving';
+  end if;
+  if public.is_click_admin(target_click_id) and not exists (
+    select 1 from public.click_members
+    where click_id = target_click_id and role = 'admin' and user_id <> auth.uid()
+  ) then
+    raise exception 'Make another member an admin before leaving';
+  end if;
+
+  delete from public.click_members
+  where click_id = target_click_id and user_id = auth.uid();
+end;
+$$;
+
+create function public.transfer_click_ownership(target_click_id uuid, new_owner_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Lock the Click so two transfers can't race
+  perform 1 from public.clicks
+  where id = target_click_id and created_by = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Only the owner can transfer ownership';
+  end if;
+
+  update public.click_members
+  set role = 'admin'
+  where click_id = target_click_id and user_id = new_owner_id;
+
+  if not found then
+    raise exception 'The new owner must be a member of this Click';
+  end if;
+
+  update public.clicks set created_by = new_owner_id where id = target_click_id;
+end;
+$$;
+
+grant execute on function public.set_member_role(uuid, uuid, text) to authenticated;
+grant execute on function public.remove_member(uuid, uuid) to authenticated;
+grant execute on function public.leave_click(uuid) to authenticated;
+grant execute on function public.transfer_click_ownership(uuid, uuid) to authenticated;
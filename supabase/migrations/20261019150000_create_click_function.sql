@@ -0,0 +1,55 @@
+-- Creating a Click and its first admin in one transaction, so a failed
+-- membership insert can't leave an ownerless Click behind.
+create function public.create_click(
+  click_name text,
+  click_description text default null,
+  click_schedule_frequency public.click_frequency default null,
+  click_schedule_day integer default null,
+  click_schedule_time time default null,
+  click_schedule_timezone text default 'UTC'
+)
+returns public.clicks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_click public.clicks;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in to create a Click';
+  end if;
+  if length(trim(click_name)) < 3 or length(click_name) > 50 then
+    raise exception 'Name must be between 3 and 50 characters';
+  end if;
+
+  insert into public.clicks (
+    name,
+    description,
+    created_by,
+    schedule_frequency,
+    schedule_day,
+    schedule_time,
+    schedule_timezone
+  )
+  values (
+    trim(click_name),
+    nullif(trim(click_description), ''),
+    auth.uid(),
+    click_schedule_frequency,
+    click_schedule_day,
+    click_schedule_time,
+    coalesce(click_schedule_timezone, 'UTC')
+  )
+  returning * into new_click;
+
+  insert into public.click_members (click_id, user_id, role)
+  values (new_click.id, auth.uid(), 'admin');
+
+  return new_click;
+end;
+$$;
+
+grant execute on function public.create_click(
+  text, text, public.click_frequency, integer, time, text
+) to authenticated;
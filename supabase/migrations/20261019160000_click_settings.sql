@@ -0,0 +1,27 @@
+-- Admin-chosen cover photo, stored in post-images under <click_id>/cover/.
+-- When unset, the Dashboard falls back to the newest post photo.
+alter table public.clicks
+  add column cover_image_url text,
+  add column archived_at timestamptz;
+
+create policy "Click admins can update their Click"
+on public.clicks for update
+to authenticated
+using (public.is_click_admin(id))
+with check (public.is_click_admin(id));
+
+create policy "Click admins can delete their Click"
+on public.clicks for delete
+to authenticated
+using (public.is_click_admin(id));
+
+-- Archived Clicks are read-only
+create policy "No new posts in archived Clicks"
+on public.posts as restrictive for insert
+to authenticated
+with check (
+  not exists (
+    select 1 from public.clicks
+    where id = click_id and archived_at is not null
+  )
+);
@@ -0,0 +1,3 @@
+-- Serves the feed's keyset pagination: newest first, id as the tie-breaker
+create index posts_click_feed_idx
+  on public.posts (click_id, created_at desc, id desc);
@@ -0,0 +1,50 @@
+-- Deleting a post takes its photos, likes and comments with it
+alter table public.post_images
+  drop constraint post_images_post_id_fkey,
+  add constraint post_images_post_id_fkey
+    foreign key (post_id) references public.posts (id) on delete cascade;
+
+alter table public.likes
+  drop constraint likes_post_id_fkey,
+  add constraint likes_post_id_fkey
+    foreign key (post_id) references public.posts (id) on delete cascade;
+
+alter table public.comments
+  drop constraint comments_post_id_fkey,
+  add constraint comments_post_id_fkey
+    foreign key (post_id) references public.posts (id) on delete cascade;
+
+create policy "Authors can edit their posts"
+on public.posts for update
+to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create policy "Authors and Click admins can delete posts"
+on public.posts for delete
+to authenticated
+using (user_id = auth.uid() or public.is_click_admin(click_id));
+
+create policy "Authors can reorder their post images"
+on public.post_images for update
+to authenticated
+using (post_id in (select id from public.posts where user_id = auth.uid()));
+
+create policy "Authors can remove their post images"
+on public.post_images for delete
+to authenticated
+using (post_id in (select id from public.posts where user_id = auth.uid()));
+
+-- Files live at <click_id>/<post_id>/..., or <click_id>/cover/... for covers
+create policy "Authors and Click admins can delete post images"
+on storage.objects for delete
+to authenticated
+using (
+  bucket_id = 'post-images'
+  and (
+    (storage.foldername(name))[2] in (
+      select id::text from public.posts where user_id = auth.uid()
+    )
+    or public.is_click_admin(((storage.foldername(name))[1])::uuid)
+  )
+);
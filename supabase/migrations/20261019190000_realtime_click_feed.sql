@@ -0,0 +1,39 @@
+-- Realtime subscriptions can only filter on a table's own columns, so likes
+-- and comments carry their post's click_id, filled in by a trigger.
+alter table public.likes add column click_id uuid references public.clicks (id) on delete cascade;
+alter table public.comments add column click_id uuid references public.clicks (id) on delete cascade;
+
+update public.likes l set click_id = p.click_id from public.posts p where p.id = l.post_id;
+update public.comments c set click_id = p.click_id from public.posts p where p.id = c.post_id;
+
+alter table public.likes alter column click_id set not null;
+alter table public.comments alter column click_id set not null;
+
+create index likes_click_id_idx on public.likes (click_id);
+create index comments_click_id_idx on public.comments (click_id);
+
+create function public.set_click_id_from_post()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.click_id := (select click_id from public.posts where id = new.post_id);
+  return new;
+end;
+$$;
+
+create trigger likes_set_click_id
+before insert on public.likes
+for each row execute function public.set_click_id_from_post();
+
+create trigger comments_set_click_id
+before insert on public.comments
+for each row execute function public.set_click_id_from_post();
+
+-- Delete events can't be filtered, and on tables with RLS they carry only the
+-- primary key whatever the replica identity, so the default identity is kept.
+-- Clients work out which post a removed like or comment belonged to from the
+-- key or their cache, and refetch when they can't.
+alter publication supabase_realtime add table public.posts, public.likes, public.comments;
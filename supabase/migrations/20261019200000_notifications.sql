@@ -0,0 +1,179 @@
+create type public.notification_type as enum (
+  'like',
+  'comment',
+  'reply',
+  'friend_request',
+  'friend_accepted',
+  'member_joined'
+);
+
+-- One row per event for its recipient (user_id); actor_id is who caused it.
+-- Rows are written by the triggers below, never by clients.
+create table public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  actor_id uuid not null references auth.users (id) on delete cascade,
+  type public.notification_type not null,
+  click_id uuid references public.clicks (id) on delete cascade,
+  post_id uuid references public.posts (id) on delete cascade,
+  comment_id uuid references public.comments (id) on delete cascade,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index notifications_user_id_created_at_idx
+  on public.notifications (user_id, created_at desc);
+
+alter table public.notifications enable row level security;
+
+create policy "Users can view their notifications"
+on public.notifications for select
+to authenticated
+using (user_id = auth.uid());
+
+create policy "Users can mark their notifications read"
+on public.notifications for update
+to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create function public.notify_like()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    -- An unliked post shouldn't keep saying it was liked
+    delete from public.notifications
+    where type = 'like' and post_id = old.post_id and actor_id = old.user_id;
+    return old;
+  end if;
+
+  insert into public.notifications (user_id, actor_id, type, click_id, post_id)
+  select p.user_id, new.user_id, 'like', p.click_id, p.id
+  from public.posts p
+  where p.id = new.post_id and p.user_id <> new.user_id;
+  return new;
+end;
+$$;
+
+create trigger likes_notify
+after insert or delete on public.likes
+for each row execute function public.notify_like();
+
+create function public.notify_comment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  post_author uuid;
+  parent_author uuid;
+begin
+  select user_id into post_author from public.posts where id = new.post_id;
+  select user_id into parent_author from public.comments where id = new.parent_id;
+
+  if parent_author is not null and parent_author <> new.user_id then
+    insert into public.notifications (user_id, actor_id, type, click_id, post_id, comment_id)
+    values (parent_author, new.user_id, 'reply', new.click_id, new.post_id, new.id);
+  end if;
+
+  -- A post author replied to directly already hears about it as a reply
+  if post_author <> new.user_id and post_author is distinct from parent_author then
+    insert into public.notifications (user_id, actor_id, type, click_id, post_id, comment_id)
+    values (post_author, new.user_id, 'comment', new.click_id, new.post_id, new.id);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger comments_notify
+after insert on public.comments
+for each row execute function public.notify_comment();
+
+create function public.notify_friend()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    -- A cancelled request shouldn't linger in the other person's inbox
+    if old.status = 'pending' then
+      delete from public.notifications
+      where type = 'friend_request' and user_id = old.friend_id and actor_id = old.user_id;
+    end if;
+    return old;
+  end if;
+
+  -- Requests re-point an existing row at the sender, so updates count too
+  if new.status = 'pending' and (
+    tg_op = 'INSERT' or old.status <> 'pending' or old.user_id <> new.user_id
+  ) then
+    insert into public.notifications (user_id, actor_id, type)
+    values (new.friend_id, new.user_id, 'friend_request');
+  elsif tg_op = 'UPDATE' and new.status = 'accepted' and old.status = 'pending' then
+    insert into public.notifications (user_id, actor_id, type)
+    values (new.user_id, new.friend_id, 'friend_accepted');
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger friends_notify
+after insert or update or delete on public.friends
+for each row execute function public.notify_friend();
+
+-- Same as before, plus a notification for whoever created the invite
+create or replace function public.accept_invite(invite_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.click_invites;
+begin
+  if auth.uid() is null then
+    raise exception 'You need to sign in to join a Click';
+  end if;
+
+  select * into invite from public.click_invites where code = invite_code for update;
+
+  if invite.id is null
+    or invite.revoked_at is not null
+    or (invite.expires_at is not null and invite.expires_at <= now())
+    or (invite.max_uses is not null and invite.use_count >= invite.max_uses)
+  then
+    raise exception 'This invite link is invalid or has expired';
+  end if;
+
+  -- Existing members keep their role and don't use up the invite
+  if exists (
+    select 1 from public.click_members
+    where click_id = invite.click_id and user_id = auth.uid()
+  ) then
+    return invite.click_id;
+  end if;
+
+  insert into public.click_members (click_id, user_id, role)
+  values (invite.click_id, auth.uid(), invite.role);
+
+  update public.click_invites set use_count = use_count + 1 where id = invite.id;
+
+  if invite.created_by <> auth.uid() then
+    insert into public.notifications (user_id, actor_id, type, click_id)
+    values (invite.created_by, auth.uid(), 'member_joined', invite.click_id);
+  end if;
+
+  return invite.click_id;
+end;
+$$;
+
+alter publication supabase_realtime add table public.notifications;
@@ -0,0 +1,87 @@
+-- One row per browser or device a user has allowed to receive pushes
+create table public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  user_agent text,
+  created_at timestamptz not null default now()
+);
+
+create index push_subscriptions_user_id_idx on public.push_subscriptions (user_id);
+
+alter table public.push_subscriptions enable row level security;
+
+create policy "Users can view their push subscriptions"
+on public.push_subscriptions for select
+to authenticated
+using (user_id = auth.uid());
+
+create policy "Users can add their push subscriptions"
+on public.push_subscriptions for insert
+to authenticated
+with check (user_id = auth.uid());
+
+create policy "Users can update their push subscriptions"
+on public.push_subscriptions for update
+to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create policy "Users can remove their push subscriptions"
+on public.push_subscriptions for delete
+to authenticated
+using (user_id = auth.uid());
+
+-- Kept out of profiles, which every signed-in user can read
+create table public.notification_preferences (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  reminder_push boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.notification_preferences enable row level security;
+
+create policy "Users can view their notification preferences"
+on public.notification_preferences for select
+to authenticated
+using (user_id = auth.uid());
+
+create policy "Users can create their notification preferences"
+on public.notification_preferences for insert
+to authenticated
+with check (user_id = auth.uid());
+
+create policy "Users can update their notification preferences"
+on public.notification_preferences for update
+to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+-- Set by the send-reminders function when it claims a reminder, so each one
+-- is pushed once however often the function runs
+alter table public.reminders add column push_sent_at timestamptz;
+
+-- Run the sender every minute. It reads the project URL and service role key
+-- from Vault; see the README for the secrets it expects.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'send-reminders',
+  '* * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/send-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key'
+      )
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
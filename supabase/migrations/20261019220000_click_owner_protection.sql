@@ -0,0 +1,27 @@
+-- Admins can edit a Click's settings, but ownership only moves through
+-- transfer_click_ownership. That function runs as its owner, while direct
+-- updates from clients run as authenticated.
+create function public.protect_click_owner()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.created_by is distinct from old.created_by and current_user = 'authenticated' then
+    raise exception 'Use transfer_click_ownership to change the owner of a Click';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger clicks_protect_owner
+before update on public.clicks
+for each row execute function public.protect_click_owner();
+
+-- Deleting is permanent, so it's the owner's call alone
+drop policy "Click admins can delete their Click" on public.clicks;
+
+create policy "Click owners can delete their Click"
+on public.clicks for delete
+to authenticated
+using (created_by = auth.uid());
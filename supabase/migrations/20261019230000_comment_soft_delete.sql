@@ -0,0 +1,42 @@
+-- A deleted comment with replies stays as a placeholder so the replies keep
+-- their place in the thread; its text is cleared.
+alter table public.comments add column deleted_at timestamptz;
+
+create function public.delete_comment(target_comment_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.comments;
+  next_parent_id uuid;
+begin
+  select * into target from public.comments where id = target_comment_id for update;
+
+  if target.id is null or target.user_id is distinct from auth.uid() then
+    raise exception 'You can only delete your own comments';
+  end if;
+
+  if exists (select 1 from public.comments where comments.parent_id = target.id) then
+    update public.comments
+    set content = '', deleted_at = now()
+    where id = target.id;
+    return;
+  end if;
+
+  delete from public.comments where id = target.id;
+
+  -- Placeholders left without replies have nothing to hold up any more
+  next_parent_id := target.parent_id;
+  while next_parent_id is not null loop
+    delete from public.comments c
+    where c.id = next_parent_id
+      and c.deleted_at is not null
+      and not exists (select 1 from public.comments r where r.parent_id = c.id)
+    returning c.parent_id into next_parent_id;
+  end loop;
+end;
+$$;
+
+grant execute on function public.delete_comment(uuid) to authenticated;
@@ -0,0 +1,63 @@
+-- The moves lib/friends.ts allows, enforced for writes made by users directly.
+-- Security-definer functions and the service role run as other roles and are
+-- trusted to know what they're doing.
+create function public.enforce_friend_transition()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  viewer uuid := auth.uid();
+  other uuid;
+begin
+  if current_user <> 'authenticated' then
+    return coalesce(new, old);
+  end if;
+
+  if tg_op = 'INSERT' then
+    -- request or block, from no row at all
+    if new.user_id = viewer and new.friend_id <> viewer and new.status in ('pending', 'blocked') then
+      return new;
+    end if;
+    raise exception 'You can only send a friend request or block someone';
+  end if;
+
+  if viewer not in (old.user_id, old.friend_id) then
+    raise exception 'This friendship isn''t yours to change';
+  end if;
+  other := case when old.user_id = viewer then old.friend_id else old.user_id end;
+
+  if tg_op = 'DELETE' then
+    -- cancel an outgoing request, unfriend, or lift your own block
+    if (old.status = 'pending' and old.user_id = viewer)
+      or old.status = 'accepted'
+      or (old.status = 'blocked' and old.user_id = viewer)
+    then
+      return old;
+    end if;
+    raise exception 'You can''t remove this friendship';
+  end if;
+
+  -- accept or decline an incoming request
+  if old.status = 'pending' and old.friend_id = viewer
+    and new.user_id = old.user_id and new.friend_id = old.friend_id
+    and new.status in ('accepted', 'declined')
+  then
+    return new;
+  end if;
+
+  -- request again after a decline; requests and blocks point the row at the viewer
+  if new.user_id = viewer and new.friend_id = other and (
+    (old.status = 'declined' and new.status = 'pending')
+    or (old.status <> 'blocked' and new.status = 'blocked')
+  ) then
+    return new;
+  end if;
+
+  raise exception 'That friendship change isn''t allowed';
+end;
+$$;
+
+create trigger friends_enforce_transition
+before insert or update or delete on public.friends
+for each row execute function public.enforce_friend_transition();
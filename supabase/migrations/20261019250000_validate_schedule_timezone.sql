@@ -0,0 +1,23 @@
+-- schedule_timezone was free text, and an unknown zone breaks every reminder
+-- calculation for the Click. Checked here so create_click and direct updates
+-- from the settings page are both covered.
+create function public.validate_schedule_timezone()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from pg_timezone_names where name = new.schedule_timezone) then
+    raise exception 'Unknown time zone "%"', new.schedule_timezone;
+  end if;
+  return new;
+end;
+$$;
+
+update public.clicks
+set schedule_timezone = 'UTC'
+where schedule_timezone not in (select name from pg_timezone_names);
+
+create trigger clicks_validate_schedule_timezone
+before insert or update of schedule_timezone on public.clicks
+for each row execute function public.validate_schedule_timezone();
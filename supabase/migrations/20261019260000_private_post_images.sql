@@ -0,0 +1,22 @@
+-- Post photos are private to the Click. Rows keep the object's public-style
+-- URL as its address; the app swaps it for a short-lived signed URL to show it.
+update storage.buckets set public = false where id = 'post-images';
+
+drop policy "Anyone can view post images" on storage.objects;
+
+create policy "Click members can view post images"
+on storage.objects for select
+to authenticated
+using (
+  bucket_id = 'post-images'
+  and (storage.foldername(name))[1] in (
+    select click_id::text from public.click_members where user_id = auth.uid()
+  )
+);
+
+-- Photos are uploaded before their post row exists, so the uploader needs to
+-- be able to remove them again if creating the post fails.
+create policy "Uploaders can delete their post images"
+on storage.objects for delete
+to authenticated
+using (bucket_id = 'post-images' and owner_id = auth.uid()::text);
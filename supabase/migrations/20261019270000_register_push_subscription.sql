@@ -0,0 +1,50 @@
+-- A browser has one endpoint whoever is signed in to it. When another user
+-- subscribes from a shared browser, the row belongs to someone else and RLS
+-- hides it from an upsert, so the endpoint is handed over here instead. Only
+-- the browser itself knows the subscription's keys, so sending them proves
+-- the caller is on it; knowing the endpoint alone isn't enough.
+create function public.register_push_subscription(
+  subscription_endpoint text,
+  subscription_p256dh text,
+  subscription_auth text,
+  subscription_user_agent text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  existing public.push_subscriptions;
+begin
+  if auth.uid() is null then
+    raise exception 'You must be signed in to receive push notifications';
+  end if;
+
+  select * into existing
+  from public.push_subscriptions
+  where endpoint = subscription_endpoint
+  for update;
+
+  if existing.id is null then
+    insert into public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+    values (
+      auth.uid(),
+      subscription_endpoint,
+      subscription_p256dh,
+      subscription_auth,
+      subscription_user_agent
+    );
+  elsif existing.user_id = auth.uid()
+    or (existing.p256dh = subscription_p256dh and existing.auth = subscription_auth) then
+    update public.push_subscriptions
+    set user_id = auth.uid(),
+        p256dh = subscription_p256dh,
+        auth = subscription_auth,
+        user_agent = subscription_user_agent
+    where id = existing.id;
+  else
+    raise exception 'This push subscription belongs to another browser';
+  end if;
+end;
+$$;
@@ -0,0 +1,103 @@
+-- Members used to insert reminders themselves, which let them pick any time
+-- and prompt. Now the server checks the time against the Click's schedule
+-- and picks the prompt, for the app and the send-reminders function alike.
+drop policy "Click members can create reminders" on public.reminders;
+
+-- Depends only on the Click and the time, so every caller agrees on the text
+create function public.reminder_prompt(target_click_id uuid, reminder_scheduled_for timestamptz)
+returns text
+language sql
+immutable
+as $$
+  select (array[
+    'What made you smile today?',
+    'Show us where you are right now.',
+    'What''s on your plate?',
+    'Share the view from your window.',
+    'What are you working on?',
+    'Snap something that made your day better.',
+    'Who are you spending time with?',
+    'Show us something new you tried.',
+    'What''s the weather like where you are?',
+    'Share a photo of your favorite corner at home.'
+  ])[1 + abs(hashtext(target_click_id::text || ':' || extract(epoch from reminder_scheduled_for)::text) % 10)];
+$$;
+
+-- Returns the reminder for one of the Click's scheduled times from the last
+-- day, creating it the first time anyone asks.
+create function public.ensure_reminder(target_click_id uuid, reminder_scheduled_for timestamptz)
+returns public.reminders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.clicks;
+  local_date date;
+  scheduled_day boolean;
+  reminder public.reminders;
+begin
+  -- The service role has no user; everyone else must be in the Click
+  if coalesce(auth.jwt() ->> 'role', '') <> 'service_role' and not exists (
+    select 1 from public.click_members
+    where click_id = target_click_id and user_id = auth.uid()
+  ) then
+    raise exception 'You are not a member of this Click';
+  end if;
+
+  select * into target from public.clicks where id = target_click_id;
+
+  -- Checked in full, as a missing piece would make the time check below null
+  -- and let any time through
+  if target.id is null
+    or target.archived_at is not null
+    or target.schedule_frequency is null
+    or target.schedule_time is null then
+    raise exception 'This Click has no reminder schedule';
+  end if;
+
+  -- A few minutes of grace for clocks running ahead
+  if reminder_scheduled_for > now() + interval '5 minutes'
+    or reminder_scheduled_for <= now() - interval '1 day' then
+    raise exception 'Reminders can only be created for the last day';
+  end if;
+
+  local_date := (reminder_scheduled_for at time zone target.schedule_timezone)::date;
+  scheduled_day := case target.schedule_frequency
+    when 'daily' then true
+    when 'weekly' then extract(dow from local_date) = target.schedule_day
+    -- Short months fire on their last day, as in the app
+    when 'monthly' then extract(day from local_date) = least(
+      coalesce(target.schedule_day, 1),
+      extract(day from date_trunc('month', local_date) + interval '1 month - 1 day')
+    )
+  end;
+
+  if not coalesce(scheduled_day, false) or (
+    local_date + make_time(
+      extract(hour from target.schedule_time)::int,
+      extract(minute from target.schedule_time)::int,
+      0
+    )
+  ) at time zone target.schedule_timezone <> reminder_scheduled_for then
+    raise exception 'That is not one of this Click''s reminder times';
+  end if;
+
+  insert into public.reminders (click_id, scheduled_for, prompt)
+  values (
+    target_click_id,
+    reminder_scheduled_for,
+    public.reminder_prompt(target_click_id, reminder_scheduled_for)
+  )
+  on conflict (click_id, scheduled_for) do nothing;
+
+  select * into reminder
+  from public.reminders
+  where click_id = target_click_id and scheduled_for = reminder_scheduled_for;
+
+  return reminder;
+end;
+$$;
+
+revoke execute on function public.ensure_reminder(uuid, timestamptz) from public, anon;
+grant execute on function public.ensure_reminder(uuid, timestamptz) to authenticated, service_role;
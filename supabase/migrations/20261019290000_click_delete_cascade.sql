@@ -0,0 +1,23 @@
+-- Deleting a Click takes its posts and memberships with it; posts take their
+-- photos, likes and comments in turn
+alter table public.posts
+  drop constraint posts_click_id_fkey,
+  add constraint posts_click_id_fkey
+    foreign key (click_id) references public.clicks (id) on delete cascade;
+
+alter table public.click_members
+  drop constraint click_members_click_id_fkey,
+  add constraint click_members_click_id_fkey
+    foreign key (click_id) references public.clicks (id) on delete cascade;
+
+-- Files are removed after their Click is gone, when no one is its admin any
+-- more. Whatever is left under a deleted Click's folder is fair game.
+create policy "Files of deleted Clicks can be removed"
+on storage.objects for delete
+to authenticated
+using (
+  bucket_id = 'post-images'
+  and not exists (
+    select 1 from public.clicks where id::text = (storage.foldername(name))[1]
+  )
+);
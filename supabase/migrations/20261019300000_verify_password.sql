@@ -0,0 +1,28 @@
+-- Lets the change-password form check the current password without signing
+-- in again, which would replace the session and drop a two-factor session
+-- back to one factor.
+create function public.verify_password(current_password text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  matches boolean;
+begin
+  select encrypted_password = crypt(current_password, encrypted_password)
+  into matches
+  from auth.users
+  where id = auth.uid();
+
+  if not coalesce(matches, false) then
+    -- Slows down guessing from a borrowed session
+    perform pg_sleep(1);
+  end if;
+
+  return coalesce(matches, false);
+end;
+$$;
+
+revoke execute on function public.verify_password(text) from public, anon;
+grant execute on function public.verify_password(text) to authenticated;
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createTestDb, runMigration, signInAs } from "./db";
+
+const ALICE = "00000000-0000-0000-0000-00000000000a";
+const BOB = "00000000-0000-0000-0000-00000000000b";
+
+const COMMENTS_TABLE = `
+  create table public.comments (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null,
+    parent_id uuid references public.comments (id) on delete cascade,
+    content text not null,
+    created_at timestamptz not null default now()
+  );
+`;
+
+let db: PGlite;
+
+async function addComment(userId: string, parentId: string | null = null) {
+  const { rows } = await db.query<{ id: string }>(
+    "insert into public.comments (user_id, parent_id, content) values ($1, $2, 'hi') returning id",
+    [userId, parentId]
+  );
+  return rows[0].id;
+}
+
+async function deleteComment(userId: string, commentId: string) {
+  await signInAs(db, userId);
+  await db.query("select public.delete_comment($1)", [commentId]);
+}
+
+async function remaining() {
+  const { rows } = await db.query<{ id: string; content: string; deleted: boolean }>(
+    "select id, content, deleted_at is not null as deleted from public.comments"
+  );
+  return rows;
+}
+
+beforeEach(async () => {
+  db = await createTestDb(COMMENTS_TABLE);
+  await runMigration(db, "20261019230000_comment_soft_delete.sql");
+});
+
+describe("delete_comment", () => {
+  it("deletes a comment without replies", async () => {
+    const comment = await addComment(ALICE);
+    await deleteComment(ALICE, comment);
+    expect(await remaining()).toEqual([]);
+  });
+
+  it("keeps a comment with replies as a cleared placeholder", async () => {
+    const comment = await addComment(ALICE);
+    const reply = await addComment(BOB, comment);
+    await deleteComment(ALICE, comment);
+
+    expect(await remaining()).toEqual(
+      expect.arrayContaining([
+        { id: comment, content: "", deleted: true },
+        { id: reply, content: "hi", deleted: false },
+      ])
+    );
+  });
+
+  it("prunes placeholders left without replies when the last reply goes", async () => {
+    const root = await addComment(ALICE);
+    const middle = await addComment(BOB, root);
+    const reply = await addComment(ALICE, middle);
+    await deleteComment(ALICE, root);
+    await deleteComment(BOB, middle);
+
+    await deleteComment(ALICE, reply);
+    expect(await remaining()).toEqual([]);
+  });
+
+  it("stops pruning at an ancestor that still has other replies", async () => {
+    const root = await addComment(ALICE);
+    const reply = await addComment(BOB, root);
+    const otherReply = await addComment(BOB, root);
+    await deleteComment(ALICE, root);
+
+    await deleteComment(BOB, reply);
+    expect(await remaining()).toEqual(
+      expect.arrayContaining([
+        { id: root, content: "", deleted: true },
+        { id: otherReply, content: "hi", deleted: false },
+      ])
+    );
+    expect(await remaining()).toHaveLength(2);
+  });
+
+  it("refuses to delete someone else's comment", async () => {
+    const comment = await addComment(ALICE);
+    await expect(deleteComment(BOB, comment)).rejects.toThrow(
+      "You can only delete your own comments"
+    );
+  });
+});
@@ -0,0 +1,40 @@
+// An in-memory Postgres for testing migrations. The tables the app started
+// with aren't in supabase/migrations, so tests create just the parts they need.
+import { readFileSync } from "node:fs";
+import { PGlite } from "@electric-sql/pglite";
+
+const SUPABASE_STUBS = `
+  create role anon;
+  create role authenticated;
+  create role service_role;
+
+  create schema auth;
+  create table auth.users (id uuid primary key);
+
+  -- Read from request settings the same way Supabase's own versions are
+  create function auth.uid() returns uuid language sql stable as $$
+    select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid
+  $$;
+  create function auth.jwt() returns jsonb language sql stable as $$
+    select coalesce(nullif(current_setting('request.jwt.claims', true), ''), '{}')::jsonb
+  $$;
+`;
+
+export async function createTestDb(setupSql: string) {
+  const db = new PGlite();
+  await db.exec(SUPABASE_STUBS);
+  await db.exec(setupSql);
+  return db;
+}
+
+export async function runMigration(db: PGlite, name: string) {
+  await db.exec(readFileSync(new URL(`../migrations/${name}`, import.meta.url), "utf8"));
+}
+
+/** Makes the following statements run as this user, as a signed-in request would. */
+export async function signInAs(db: PGlite, userId: string | null) {
+  await db.query("select set_config('request.jwt.claim.sub', $1, false)", [userId ?? ""]);
+  await db.query("select set_config('request.jwt.claims', $1, false)", [
+    JSON.stringify(userId ? { sub: userId, role: "authenticated" } : { role: "service_role" }),
+  ]);
+}
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createTestDb, runMigration, signInAs } from "./db";
+
+const ALICE = "00000000-0000-0000-0000-00000000000a";
+const CLICK = "00000000-0000-0000-0000-0000000000c1";
+
+const SCHEMA = `
+  create type public.click_frequency as enum ('daily', 'weekly', 'monthly');
+
+  create table public.clicks (
+    id uuid primary key,
+    schedule_frequency public.click_frequency,
+    schedule_day integer,
+    schedule_time time,
+    schedule_timezone text not null default 'UTC',
+    archived_at timestamptz
+  );
+
+  create table public.click_members (
+    click_id uuid not null references public.clicks (id),
+    user_id uuid not null
+  );
+
+  -- As created in 20261019120000_reminders.sql, which also alters posts
+  create table public.reminders (
+    id uuid primary key default gen_random_uuid(),
+    click_id uuid not null references public.clicks (id) on delete cascade,
+    scheduled_for timestamptz not null,
+    prompt text not null,
+    created_at timestamptz not null default now(),
+    push_sent_at timestamptz,
+    unique (click_id, scheduled_for)
+  );
+  alter table public.reminders enable row level security;
+  create policy "Click members can create reminders" on public.reminders for insert with check (true);
+`;
+
+let db: PGlite;
+
+async function setSchedule(frequency: string | null, time: string | null) {
+  await db.query(
+    "update public.clicks set schedule_frequency = $1, schedule_time = $2 where id = $3",
+    [frequency, time, CLICK]
+  );
+}
+
+/** Today's occurrence of a daily 00:00 UTC schedule, which is always in the last day. */
+async function todayAtMidnight() {
+  const { rows } = await db.query<{ at: Date }>("select date_trunc('day', now(), 'UTC') as at");
+  return rows[0].at;
+}
+
+async function ensureReminder(scheduledFor: Date) {
+  const { rows } = await db.query<{ prompt: string }>(
+    "select * from public.ensure_reminder($1, $2)",
+    [CLICK, scheduledFor.toISOString()]
+  );
+  return rows[0];
+}
+
+beforeEach(async () => {
+  db = await createTestDb(SCHEMA);
+  await runMigration(db, "20261019280000_create_reminder_function.sql");
+  await db.query("insert into public.clicks (id) values ($1)", [CLICK]);
+  await db.query("insert into public.click_members (click_id, user_id) values ($1, $2)", [
+    CLICK,
+    ALICE,
+  ]);
+  await signInAs(db, ALICE);
+});
+
+describe("ensure_reminder", () => {
+  it("creates a reminder for a scheduled time, with a prompt", async () => {
+    await setSchedule("daily", "00:00");
+    const reminder = await ensureReminder(await todayAtMidnight());
+    expect(reminder.prompt).toEqual(expect.any(String));
+    expect(reminder.prompt.length).toBeGreaterThan(0);
+  });
+
+  it("returns the same reminder when asked again", async () => {
+    await setSchedule("daily", "00:00");
+    const scheduledFor = await todayAtMidnight();
+    expect(await ensureReminder(scheduledFor)).toEqual(await ensureReminder(scheduledFor));
+  });
+
+  it("refuses a time that isn't on the schedule", async () => {
+    await setSchedule("daily", "00:00");
+    const offSchedule = new Date((await todayAtMidnight()).getTime() + 60 * 1000);
+    await expect(ensureReminder(offSchedule)).rejects.toThrow(
+      "That is not one of this Click's reminder times"
+    );
+  });
+
+  it("refuses a Click whose schedule has no time", async () => {
+    await setSchedule("daily", null);
+    await expect(ensureReminder(await todayAtMidnight())).rejects.toThrow(
+      "This Click has no reminder schedule"
+    );
+  });
+
+  it("refuses non-members", async () => {
+    await setSchedule("daily", "00:00");
+    await signInAs(db, "00000000-0000-0000-0000-00000000000b");
+    await expect(ensureReminder(await todayAtMidnight())).rejects.toThrow(
+      "You are not a member of this Click"
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import { createTestDb, runMigration, signInAs } from "./db";
+
+const ALICE = "00000000-0000-0000-0000-00000000000a";
+const BOB = "00000000-0000-0000-0000-00000000000b";
+const ENDPOINT = "https://push.example.com/abc";
+
+// As created in 20261019210000_push_reminders.sql, which also needs pg_cron
+const PUSH_SUBSCRIPTIONS_TABLE = `
+  create table public.push_subscriptions (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null,
+    endpoint text not null unique,
+    p256dh text not null,
+    auth text not null,
+    user_agent text,
+    created_at timestamptz not null default now()
+  );
+`;
+
+let db: PGlite;
+
+async function register(userId: string, keys = { p256dh: "key", auth: "secret" }) {
+  await signInAs(db, userId);
+  await db.query("select public.register_push_subscription($1, $2, $3, 'test')", [
+    ENDPOINT,
+    keys.p256dh,
+    keys.auth,
+  ]);
+}
+
+async function owner() {
+  const { rows } = await db.query<{ user_id: string }>(
+    "select user_id from public.push_subscriptions where endpoint = $1",
+    [ENDPOINT]
+  );
+  return rows.map((row) => row.user_id);
+}
+
+beforeEach(async () => {
+  db = await createTestDb(PUSH_SUBSCRIPTIONS_TABLE);
+  await runMigration(db, "20261019270000_register_push_subscription.sql");
+});
+
+describe("register_push_subscription", () => {
+  it("saves a new endpoint for the caller", async () => {
+    await register(ALICE);
+    expect(await owner()).toEqual([ALICE]);
+  });
+
+  it("hands the endpoint over to a user on the same browser", async () => {
+    await register(ALICE);
+    await register(BOB);
+    expect(await owner()).toEqual([BOB]);
+  });
+
+  it("lets the owner refresh their keys", async () => {
+    await register(ALICE);
+    await register(ALICE, { p256dh: "new-key", auth: "new-secret" });
+    expect(await owner()).toEqual([ALICE]);
+  });
+
+  it("refuses to hand the endpoint over without the browser's keys", async () => {
+    await register(ALICE);
+    await expect(register(BOB, { p256dh: "guess", auth: "guess" })).rejects.toThrow(
+      "This push subscription belongs to another browser"
+    );
+    expect(await owner()).toEqual([ALICE]);
+  });
+});